@@ -21,6 +21,7 @@ export default [
       },
       globals: {
         window: 'readonly',
+        self: 'readonly',
         document: 'readonly',
         console: 'readonly',
         process: 'readonly',
@@ -1,137 +1,104 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef, useMemo, MutableRefObject } from 'react';
 import MonacoEditor from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
 import { Allotment } from 'allotment';
 import 'allotment/dist/style.css';
 import { FileTree, FileNode } from './components/FileTree';
-import { BytecodeViewer } from './components/BytecodeViewer';
-import { huffCompiler, CompileResult, InternalSourceMapEntry } from './compiler/huffCompiler';
+import { OutlinePanel } from './components/OutlinePanel';
+import { Breadcrumbs } from './components/Breadcrumbs';
+import { BytecodeViewer, SourceSelection } from './components/BytecodeViewer';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { ImportConflictDialog } from './components/ImportConflictDialog';
+import { AbiPanel } from './components/AbiPanel';
+import { ExecutionPanel, ExecutionForm, defaultExecutionForm } from './components/ExecutionPanel';
+import { DebuggerPanel } from './components/DebuggerPanel';
+import { TestsPanel } from './components/TestsPanel';
+import { MacroReportPanel } from './components/MacroReportPanel';
+import { CfgPanel } from './components/CfgPanel';
+import { BytecodeDiffPanel } from './components/BytecodeDiffPanel';
+import { ArtifactExportMenu } from './components/ArtifactExportMenu';
+import { LintRulesPanel } from './components/LintRulesPanel';
+import { SizeBudgetPanel } from './components/SizeBudgetPanel';
+import { CompileSettingsPanel, describeCompileSettings } from './components/CompileSettingsPanel';
+import { compilerClient } from './compiler/compilerClient';
+import { CompileHistoryEntry, appendHistory, pinHistoryEntry } from './compiler/history';
+import {
+  CompileResult,
+  CompileSettings,
+  InternalSourceMapEntry,
+  defaultCompileSettings,
+} from './compiler/types';
+import { Diagnostic } from './compiler/diagnostics';
 import { huffLanguage, huffTheme } from './huffLanguage';
-import { Play, AlertCircle, Info, FileText, Binary, Zap, ZapOff } from 'lucide-react';
+import { registerHuffLanguageFeatures } from './language';
+import { huffWorkspace } from './language/workspaceIndex';
+import { LintSettings, defaultLintSettings, lintFile } from './language/lint';
+import { huffFormattingEdits } from './language/formatting';
+import { OutlineItem, outlineItems, outlinePath } from './language/outline';
+import { abiFromSymbols, normalizeAbi } from './abi/abi';
+import { SourceLocation, WorkspaceModels, fileUri, locationAt } from './language/models';
+import {
+  collectWorkspaceFiles,
+  createNodeId,
+  findNodeById,
+  findNodeByPath,
+  getNodePath,
+} from './workspace/fileUtils';
+import { exampleFiles } from './workspace/examples';
+import { stripHexPrefix } from './evm/disassembler';
+import {
+  SizeLimits,
+  codeSizes,
+  defaultSizeLimits,
+  describeBudget,
+  hexByteLength,
+  sizeBudgets,
+} from './evm/sizeLimits';
+import { DEFAULT_WORKSPACE, WorkspaceState, workspaceStorage } from './workspace/storage';
+import {
+  SHARE_PREFIX,
+  SharedWorkspace,
+  buildShareUrl,
+  clearShareFragment,
+  readSharedWorkspace,
+} from './workspace/share';
+import {
+  ConflictResolution,
+  ImportedFile,
+  exportWorkspaceZip,
+  findImportConflicts,
+  mergeImportedFiles,
+  readWorkspaceZip,
+} from './workspace/archive';
+import { downloadFile } from './utils/download';
+import {
+  Play,
+  AlertCircle,
+  Info,
+  Binary,
+  Zap,
+  ZapOff,
+  Share2,
+  Download,
+  Upload,
+  SlidersHorizontal,
+  Braces,
+  Cpu,
+  Bug,
+  FlaskConical,
+  PieChart,
+  Network,
+  GitCompare,
+} from 'lucide-react';
 import './App.css';
 
-// Sample files for initial state
-const initialFiles: FileNode[] = [
-  {
-    id: '1',
-    name: 'SimpleStore.huff',
-    type: 'file',
-    content: `// Simple Storage Contract
-#define constant VALUE_SLOT = FREE_STORAGE_POINTER()
-
-// Interface
-#define function setValue(uint256) nonpayable returns ()
-#define function getValue() view returns (uint256)
-
-// Store value
-#define macro SET_VALUE() = takes(1) returns(0) {
-    [VALUE_SLOT] sstore
-}
-
-// Load value  
-#define macro GET_VALUE() = takes(0) returns(1) {
-    [VALUE_SLOT] sload
-}
-
-// Main dispatch
-#define macro MAIN() = takes(0) returns(0) {
-    // Load function selector
-    0x00 calldataload 0xe0 shr
-    
-    // Dispatch
-    dup1 __FUNC_SIG(setValue) eq set_value jumpi
-    dup1 __FUNC_SIG(getValue) eq get_value jumpi
-    
-    // Revert if no match
-    0x00 0x00 revert
-    
-    set_value:
-        0x04 calldataload
-        SET_VALUE()
-        stop
-        
-    get_value:
-        GET_VALUE()
-        0x00 mstore
-        0x20 0x00 return
-}`,
-  },
-  {
-    id: '2',
-    name: 'examples',
-    type: 'folder',
-    isOpen: true,
-    children: [
-      {
-        id: '3',
-        name: 'Counter.huff',
-        type: 'file',
-        content: `// Counter Contract
-#define constant COUNTER = FREE_STORAGE_POINTER()
-
-#define function increment() nonpayable returns ()
-#define function getCount() view returns (uint256)
-
-#define macro INCREMENT() = takes(0) returns(0) {
-    [COUNTER] sload     // [count]
-    0x01 add           // [count + 1]
-    [COUNTER] sstore   // []
-}
-
-#define macro GET_COUNT() = takes(0) returns(1) {
-    [COUNTER] sload    // [count]
-}
+type OutputTab = 'bytecode' | 'abi' | 'report' | 'cfg' | 'diff' | 'run' | 'debug' | 'tests';
 
-#define macro MAIN() = takes(0) returns(0) {
-    0x00 calldataload 0xe0 shr
-    
-    dup1 __FUNC_SIG(increment) eq increment jumpi
-    dup1 __FUNC_SIG(getCount) eq get_count jumpi
-    
-    0x00 0x00 revert
-    
-    increment:
-        INCREMENT()
-        stop
-        
-    get_count:
-        GET_COUNT()
-        0x00 mstore
-        0x20 0x00 return
-}`,
-      },
-      {
-        id: '4',
-        name: 'MacroArgs.huff',
-        type: 'file',
-        content: `// First-class macro arguments example (v1.3.0)
-#define macro ADD() = takes(2) returns(1) {
-    add
-}
-
-#define macro MUL() = takes(2) returns(1) {
-    mul
-}
-
-// Pass macro as argument
-#define macro APPLY_OP(op) = takes(0) returns(1) {
-    0x10
-    0x20
-    <op>()  // Invoke the macro passed as argument
-}
-
-#define macro MAIN() = takes(0) returns(0) {
-    APPLY_OP(ADD)  // Results in: 0x10 + 0x20 = 0x30
-    0x00 mstore
-    0x20 0x00 return
-}`,
-      },
-    ],
-  },
-];
+const NO_BREAKPOINTS: number[] = [];
+const NO_HISTORY: CompileHistoryEntry[] = [];
 
 function App() {
-  const [files, setFiles] = useState<FileNode[]>(initialFiles);
+  const [files, setFiles] = useState<FileNode[]>(exampleFiles);
   const [selectedFile, setSelectedFile] = useState<string | null>('1');
   const [currentContent, setCurrentContent] = useState<string>('');
   const [compileResult, setCompileResult] = useState<CompileResult | null>(null);
@@ -141,54 +108,347 @@ function App() {
   );
   const [showRuntime, setShowRuntime] = useState(true);
   const [autoCompile, setAutoCompile] = useState(true);
+  const [compileSettings, setCompileSettings] = useState<CompileSettings>(defaultCompileSettings);
+  const [showCompileSettings, setShowCompileSettings] = useState(false);
+  const [sizeLimits, setSizeLimits] = useState<SizeLimits>(defaultSizeLimits);
+  const [lintSettings, setLintSettings] = useState<LintSettings>(defaultLintSettings);
+  const [outputTab, setOutputTab] = useState<OutputTab>('bytecode');
+  const [executionForm, setExecutionForm] = useState<ExecutionForm>(defaultExecutionForm);
+  // Cursor or selection in the editor, to highlight the bytecode generated from it
+  const [editorSelection, setEditorSelection] = useState<SourceSelection | null>(null);
+  // Definitions of the open file for the Outline panel and breadcrumbs
+  const [outline, setOutline] = useState<OutlineItem[]>([]);
+  // Breakpoint lines by file path
+  const [breakpoints, setBreakpoints] = useState<Record<string, number[]>>({});
+  // Recent successful compilations by entry file path, for the bytecode diff
+  const [compileHistory, setCompileHistory] = useState<Record<string, CompileHistoryEntry[]>>({});
+  const [workspaceName, setWorkspaceName] = useState(DEFAULT_WORKSPACE);
+  const [workspaceNames, setWorkspaceNames] = useState<string[]>([]);
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{
+    parentId: string | null;
+    files: ImportedFile[];
+    conflicts: string[];
+  } | null>(null);
   const decorationsRef = useRef<string[]>([]);
+  const debugDecorationsRef = useRef<string[]>([]);
+  const breakpointDecorationsRef = useRef<string[]>([]);
+  const monacoRef = useRef<typeof import('monaco-editor') | null>(null);
+  // Location to reveal once the editor shows the file it points to
+  const pendingRevealRef = useRef<SourceLocation | null>(null);
+  const modelsRef = useRef<WorkspaceModels | null>(null);
+  const openLocationRef = useRef<(location: SourceLocation) => boolean>(() => false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const saveRef = useRef<(content?: string) => void>(() => {});
+  const toggleBreakpointRef = useRef<(lineNumber: number) => void>(() => {});
+  const importSharedRef = useRef<(shared: SharedWorkspace) => void>(() => {});
 
-  // Initialize compiler
+  // Start the compiler worker
   useEffect(() => {
-    huffCompiler.initialize().catch(err => {
-      console.error('Failed to initialize compiler:', err);
-    });
+    compilerClient.initialize();
+  }, []);
+
+  // Restore the last active workspace from browser storage
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const name = await workspaceStorage.getActiveWorkspace();
+        const state = await workspaceStorage.loadWorkspace(name);
+        setWorkspaceNames(await workspaceStorage.listWorkspaces());
+        setWorkspaceName(name);
+        if (state) {
+          applyWorkspace(state);
+        }
+      } catch (error) {
+        console.error('Failed to restore workspace:', error);
+      } finally {
+        setIsWorkspaceLoaded(true);
+      }
+    };
+    restore();
   }, []);
 
+  // Import a shared workspace from the URL, on load and when a new link is pasted
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+
+    const handleHash = () => {
+      const shared = readSharedWorkspace();
+      if (shared) {
+        importSharedRef.current(shared);
+      } else if (window.location.hash.startsWith(SHARE_PREFIX)) {
+        showNotice('Could not read the shared workspace link');
+      }
+    };
+    handleHash();
+    window.addEventListener('hashchange', handleHash);
+    return () => window.removeEventListener('hashchange', handleHash);
+  }, [isWorkspaceLoaded]);
+
+  // Clear the header notice after a few seconds
+  useEffect(() => {
+    if (!notice) return;
+    const timeoutId = window.setTimeout(() => setNotice(null), 4000);
+    return () => window.clearTimeout(timeoutId);
+  }, [notice]);
+
+  // Persist the workspace shortly after every change
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+
+    const timeoutId = window.setTimeout(() => {
+      persistWorkspace(buildWorkspaceState());
+    }, 500);
+
+    return () => window.clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    files,
+    selectedFile,
+    currentContent,
+    compileResult,
+    autoCompile,
+    showRuntime,
+    compileSettings,
+    sizeLimits,
+    lintSettings,
+    workspaceName,
+    isWorkspaceLoaded,
+  ]);
+
   // Load initial file content and compile on load
   useEffect(() => {
     if (selectedFile) {
-      const file = findFileById(files, selectedFile);
+      const file = findNodeById(files, selectedFile);
       if (file && file.type === 'file') {
         setCurrentContent(file.content || '');
         // Auto-compile on file load (only if autoCompile is enabled)
         if (autoCompile && file.content) {
-          handleCompileContent(file.content, file.name);
+          handleCompileContent(file.content, file.id);
         }
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedFile]);
 
-  // Auto-compile on content change with debounce (only if autoCompile is enabled)
+  // Auto-compile on content or settings change with debounce (only if autoCompile is enabled)
   useEffect(() => {
     if (!autoCompile || !currentContent || !selectedFile) return;
 
-    const file = findFileById(files, selectedFile);
+    const file = findNodeById(files, selectedFile);
     if (!file || file.type !== 'file') return;
 
     const timeoutId = window.setTimeout(() => {
-      handleCompileContent(currentContent, file.name);
+      handleCompileContent(currentContent, file.id);
     }, 300); // 300ms debounce for faster updates
 
     return () => window.clearTimeout(timeoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentContent, autoCompile]);
+  }, [currentContent, autoCompile, compileSettings]);
 
-  const findFileById = (nodes: FileNode[], id: string): FileNode | null => {
-    for (const node of nodes) {
-      if (node.id === id) return node;
-      if (node.children) {
-        const found = findFileById(node.children, id);
-        if (found) return found;
-      }
+  // Workspace files with the live content of the open file
+  const liveFiles = useMemo(() => {
+    const workspaceFiles = collectWorkspaceFiles(files);
+    const activePath = selectedFile ? getNodePath(files, selectedFile) : null;
+    if (activePath) {
+      workspaceFiles.set(activePath, currentContent);
     }
-    return null;
+    return workspaceFiles;
+  }, [files, selectedFile, currentContent]);
+
+  // Keep the language features' view of the workspace in sync with the editor
+  useEffect(() => {
+    const activePath = selectedFile ? getNodePath(files, selectedFile) : null;
+    huffWorkspace.update(liveFiles);
+    huffWorkspace.activePath = activePath;
+    modelsRef.current?.sync(liveFiles, activePath);
+    const activeFile = activePath ? huffWorkspace.getFile(activePath) : undefined;
+    setOutline(activeFile ? outlineItems(activeFile) : []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveFiles, editorInstance]);
+
+  // Show compiler diagnostics for the open file as Monaco markers
+  useEffect(() => {
+    const monacoInstance = monacoRef.current;
+    const model = editorInstance?.getModel();
+    if (!monacoInstance || !model) return;
+
+    const currentPath = selectedFile ? getNodePath(files, selectedFile) : null;
+    const severities = {
+      error: monacoInstance.MarkerSeverity.Error,
+      warning: monacoInstance.MarkerSeverity.Warning,
+      info: monacoInstance.MarkerSeverity.Info,
+    };
+    const markers = (compileResult?.diagnostics || [])
+      .filter(diagnostic => diagnostic.file === currentPath && diagnostic.range)
+      .map(diagnostic => ({
+        ...diagnostic.range!,
+        severity: severities[diagnostic.severity],
+        message: diagnostic.message,
+        source: 'huff-neo',
+      }));
+    monacoInstance.editor.setModelMarkers(model, 'huff-compiler', markers);
+  }, [compileResult, editorInstance, selectedFile, files]);
+
+  // Lint the open file whenever a compilation finishes, another file is opened or the workspace
+  // files change, e.g. when a macro's last use is removed from another file
+  useEffect(() => {
+    const monacoInstance = monacoRef.current;
+    const model = editorInstance?.getModel();
+    if (!monacoInstance || !model) return;
+
+    const currentPath = selectedFile ? getNodePath(files, selectedFile) : null;
+    const file = currentPath ? huffWorkspace.getFile(currentPath) : undefined;
+    const settings = compileResult?.settings;
+    const warnings = file
+      ? lintFile(file, huffWorkspace.getRelatedFiles(file.path), lintSettings, {
+          entryPoints: [settings?.alternativeMain, settings?.alternativeConstructor].filter(
+            (name): name is string => !!name
+          ),
+        })
+      : [];
+    const markers = warnings.map(warning => {
+      const start = model.getPositionAt(warning.start);
+      const end = model.getPositionAt(warning.end);
+      return {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
+        severity: monacoInstance.MarkerSeverity.Warning,
+        message: warning.message,
+        source: 'huff-lint',
+        code: warning.rule,
+        tags: warning.unnecessary ? [monacoInstance.MarkerTag.Unnecessary] : undefined,
+      };
+    });
+    monacoInstance.editor.setModelMarkers(model, 'huff-lint', markers);
+  }, [compileResult, lintSettings, editorInstance, selectedFile, files]);
+
+  // Warn at the MAIN and CONSTRUCTOR definitions when the output nears or exceeds a size limit
+  useEffect(() => {
+    const monacoInstance = monacoRef.current;
+    const model = editorInstance?.getModel();
+    if (!monacoInstance || !model) return;
+
+    const currentPath = selectedFile ? getNodePath(files, selectedFile) : null;
+    const budgets = compileResult?.success
+      ? sizeBudgets(codeSizes(compileResult), sizeLimits).filter(budget => budget.level !== 'ok')
+      : [];
+    const markers = budgets.map(budget => {
+      const macro =
+        budget.kind === 'runtime'
+          ? compileResult?.settings?.alternativeMain || 'MAIN'
+          : compileResult?.settings?.alternativeConstructor || 'CONSTRUCTOR';
+      const symbol = huffWorkspace
+        .findDefinitions(macro)
+        .find(definition => definition.file === currentPath);
+      const start = model.getPositionAt(symbol?.nameStart ?? 0);
+      const end = symbol ? model.getPositionAt(symbol.nameEnd) : start;
+      return {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: symbol ? end.column : model.getLineMaxColumn(start.lineNumber),
+        severity:
+          budget.level === 'exceeded'
+            ? monacoInstance.MarkerSeverity.Error
+            : monacoInstance.MarkerSeverity.Warning,
+        message: describeBudget(budget),
+        source: 'size limits',
+      };
+    });
+    monacoInstance.editor.setModelMarkers(model, 'huff-size', markers);
+  }, [compileResult, sizeLimits, editorInstance, selectedFile, files]);
+
+  // Reveal a location after switching to its file
+  useEffect(() => {
+    const location = pendingRevealRef.current;
+    if (!location || !editorInstance || !selectedFile) return;
+    if (getNodePath(files, selectedFile) !== location.file) return;
+    pendingRevealRef.current = null;
+    revealLocation(location);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedFile, currentContent, editorInstance]);
+
+  const revealLocation = (location: SourceLocation) => {
+    if (!editorInstance) return;
+    editorInstance.setPosition({ lineNumber: location.lineNumber, column: location.column });
+    editorInstance.revealLineInCenter(location.lineNumber);
+    editorInstance.focus();
+  };
+
+  // Open a workspace file at the given location, switching files if needed
+  const openLocation = (location: SourceLocation): boolean => {
+    const currentPath = selectedFile ? getNodePath(files, selectedFile) : null;
+    if (location.file === currentPath) {
+      revealLocation(location);
+      return true;
+    }
+    const node = findNodeByPath(files, location.file);
+    if (!node || node.type !== 'file') return false;
+    pendingRevealRef.current = location;
+    handleFileSelect(node);
+    return true;
+  };
+  openLocationRef.current = openLocation;
+
+  const selectedPath = selectedFile ? getNodePath(files, selectedFile) : null;
+  const currentBreakpoints = (selectedPath && breakpoints[selectedPath]) || NO_BREAKPOINTS;
+  const currentHistory = (selectedPath && compileHistory[selectedPath]) || NO_HISTORY;
+
+  const cursorSymbols = editorSelection ? outlinePath(outline, editorSelection.start) : [];
+
+  const revealOffset = (offset: number) => {
+    if (selectedPath) revealLocation(locationAt(selectedPath, currentContent, offset));
+  };
+
+  const handlePinBaseline = (id: number | null) => {
+    if (!selectedPath) return;
+    setCompileHistory(prev => ({
+      ...prev,
+      [selectedPath]: pinHistoryEntry(prev[selectedPath] || [], id),
+    }));
+  };
+
+  const toggleBreakpoint = (lineNumber: number) => {
+    if (!selectedPath) return;
+    setBreakpoints(prev => {
+      const lines = prev[selectedPath] || [];
+      const next = lines.includes(lineNumber)
+        ? lines.filter(line => line !== lineNumber)
+        : [...lines, lineNumber].sort((a, b) => a - b);
+      return { ...prev, [selectedPath]: next };
+    });
+  };
+  toggleBreakpointRef.current = toggleBreakpoint;
+
+  // Show the breakpoints of the open file in the glyph margin
+  useEffect(() => {
+    const model = editorInstance?.getModel();
+    if (!editorInstance || !model) return;
+    breakpointDecorationsRef.current = editorInstance.deltaDecorations(
+      breakpointDecorationsRef.current,
+      currentBreakpoints
+        .filter(line => line <= model.getLineCount())
+        .map(line => ({
+          range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+          options: {
+            glyphMarginClassName: 'breakpoint-glyph',
+            glyphMarginHoverMessage: { value: 'Breakpoint' },
+          },
+        }))
+    );
+  }, [editorInstance, currentBreakpoints, currentContent]);
+
+  const handleDiagnosticClick = (diagnostic: Diagnostic) => {
+    if (!diagnostic.range) return;
+    openLocation({
+      file: diagnostic.file,
+      lineNumber: diagnostic.range.startLineNumber,
+      column: diagnostic.range.startColumn,
+    });
   };
 
   const updateFileContent = (nodes: FileNode[], id: string, content: string): FileNode[] => {
@@ -203,6 +463,231 @@ function App() {
     });
   };
 
+  // Snapshot of the workspace including unsaved editor content
+  const buildWorkspaceState = (content = currentContent): WorkspaceState => ({
+    name: workspaceName,
+    files: selectedFile ? updateFileContent(files, selectedFile, content) : files,
+    selectedFile,
+    settings: {
+      autoCompile,
+      showRuntime,
+      compile: compileSettings,
+      sizeLimits,
+      lint: lintSettings,
+    },
+    compileResult,
+    updatedAt: Date.now(),
+  });
+
+  const persistWorkspace = async (state: WorkspaceState) => {
+    try {
+      await workspaceStorage.saveWorkspace(state);
+      await workspaceStorage.setActiveWorkspace(state.name);
+      setWorkspaceNames(prev => (prev.includes(state.name) ? prev : [...prev, state.name].sort()));
+    } catch (error) {
+      console.error('Failed to save workspace:', error);
+    }
+  };
+
+  const applyWorkspace = (state: WorkspaceState) => {
+    setFiles(state.files);
+    setSelectedFile(state.selectedFile);
+    const file = state.selectedFile ? findNodeById(state.files, state.selectedFile) : null;
+    setCurrentContent(file?.content || '');
+    setAutoCompile(state.settings.autoCompile);
+    setShowRuntime(state.settings.showRuntime);
+    setCompileSettings(state.settings.compile);
+    setSizeLimits(state.settings.sizeLimits);
+    setLintSettings(state.settings.lint);
+    setCompileResult(state.compileResult);
+    setCompileHistory({});
+  };
+
+  const freshWorkspace = (name: string): WorkspaceState => ({
+    name,
+    files: exampleFiles,
+    selectedFile: '1',
+    settings: {
+      autoCompile,
+      showRuntime,
+      compile: compileSettings,
+      sizeLimits,
+      lint: lintSettings,
+    },
+    compileResult: null,
+    updatedAt: Date.now(),
+  });
+
+  const handleWorkspaceSwitch = async (name: string) => {
+    if (name === workspaceName) return;
+    await persistWorkspace(buildWorkspaceState());
+    try {
+      const state = (await workspaceStorage.loadWorkspace(name)) || freshWorkspace(name);
+      applyWorkspace(state);
+      setWorkspaceName(name);
+      await workspaceStorage.setActiveWorkspace(name);
+    } catch (error) {
+      console.error('Failed to load workspace:', error);
+    }
+  };
+
+  const handleWorkspaceCreate = async (name: string) => {
+    if (workspaceNames.includes(name)) {
+      await handleWorkspaceSwitch(name);
+      return;
+    }
+    await persistWorkspace(buildWorkspaceState());
+    const state = freshWorkspace(name);
+    applyWorkspace(state);
+    setWorkspaceName(name);
+    await persistWorkspace(state);
+  };
+
+  const handleWorkspaceDelete = async (name: string) => {
+    try {
+      await workspaceStorage.deleteWorkspace(name);
+      const remaining = workspaceNames.filter(n => n !== name);
+      const next = remaining[0] || DEFAULT_WORKSPACE;
+      const state = (await workspaceStorage.loadWorkspace(next)) || freshWorkspace(next);
+      setWorkspaceNames(remaining);
+      applyWorkspace(state);
+      setWorkspaceName(next);
+      await workspaceStorage.setActiveWorkspace(next);
+    } catch (error) {
+      console.error('Failed to delete workspace:', error);
+    }
+  };
+
+  const handleWorkspaceReset = () => {
+    applyWorkspace(freshWorkspace(workspaceName));
+  };
+
+  const showNotice = (message: string) => setNotice(message);
+
+  const handleShare = async () => {
+    const { url, length } = buildShareUrl({
+      files: buildWorkspaceState().files,
+      selectedFile,
+      settings: {
+        autoCompile,
+        showRuntime,
+        compile: compileSettings,
+        sizeLimits,
+        lint: lintSettings,
+      },
+    });
+    if (!url) {
+      showNotice(`Workspace is too large to share as a link (${length} characters)`);
+      return;
+    }
+    try {
+      await window.navigator.clipboard.writeText(url);
+      showNotice('Share link copied to clipboard');
+    } catch {
+      // Clipboard access can be denied, let the user copy it by hand
+      window.prompt('Copy this link to share the workspace:', url);
+    }
+  };
+
+  const handleExport = () => {
+    const state = buildWorkspaceState();
+    const entryPath = selectedFile ? getNodePath(state.files, selectedFile) : null;
+    const archive = exportWorkspaceZip(
+      state.files,
+      entryPath && compileResult ? { path: entryPath, result: compileResult } : undefined
+    );
+    downloadFile(archive, `${workspaceName}.zip`, 'application/zip');
+  };
+
+  // Read dropped or picked files: zip archives are unpacked, .huff files are taken as-is
+  const handleFilesDrop = async (parentId: string | null, droppedFiles: File[]) => {
+    const imported: ImportedFile[] = [];
+    let skipped = 0;
+    for (const file of droppedFiles) {
+      try {
+        if (file.name.endsWith('.zip')) {
+          imported.push(...readWorkspaceZip(new Uint8Array(await file.arrayBuffer())));
+        } else if (file.name.endsWith('.huff')) {
+          imported.push({ path: file.name, content: await file.text() });
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        console.error(`Failed to read ${file.name}:`, error);
+        skipped++;
+      }
+    }
+
+    if (imported.length === 0) {
+      showNotice('No .huff files found to import');
+      return;
+    }
+    if (skipped > 0) {
+      showNotice(`Skipped ${skipped} unsupported file${skipped === 1 ? '' : 's'}`);
+    }
+
+    const current = buildWorkspaceState().files;
+    const parent = parentId ? findNodeById(current, parentId) : null;
+    const conflicts = findImportConflicts(parent ? parent.children || [] : current, imported);
+    if (conflicts.length > 0) {
+      setPendingImport({ parentId, files: imported, conflicts });
+    } else {
+      applyImport(parentId, imported);
+    }
+  };
+
+  const applyImport = (
+    parentId: string | null,
+    imported: ImportedFile[],
+    resolutions: Record<string, ConflictResolution> = {}
+  ) => {
+    const merged = mergeImportedFiles(buildWorkspaceState().files, parentId, imported, resolutions);
+    setFiles(merged);
+    // An overwritten open file must show its new content
+    const open = selectedFile ? findNodeById(merged, selectedFile) : null;
+    if (open && open.content !== currentContent) {
+      setCurrentContent(open.content || '');
+    }
+    showNotice(`Imported ${imported.length} file${imported.length === 1 ? '' : 's'}`);
+  };
+
+  // Open a shared workspace under a new name so existing workspaces are never overwritten
+  importSharedRef.current = async (shared: SharedWorkspace) => {
+    clearShareFragment();
+    await persistWorkspace(buildWorkspaceState());
+
+    let name = 'shared';
+    for (let i = 2; workspaceNames.includes(name); i++) {
+      name = `shared-${i}`;
+    }
+    const state: WorkspaceState = {
+      name,
+      files: shared.files,
+      selectedFile: shared.selectedFile,
+      settings: shared.settings,
+      compileResult: null,
+      updatedAt: Date.now(),
+    };
+    applyWorkspace(state);
+    setWorkspaceName(name);
+    await persistWorkspace(state);
+    showNotice(`Opened shared workspace as "${name}"`);
+
+    const file = state.selectedFile ? findNodeById(state.files, state.selectedFile) : null;
+    if (file?.type === 'file' && file.content) {
+      handleCompileContent(file.content, file.id, state.files, state.settings.compile);
+    }
+  };
+
+  // Keep the Ctrl+S handler pointed at the latest state; the editor passes its content when
+  // formatting has just changed it
+  saveRef.current = (content = currentContent) => {
+    if (selectedFile) {
+      setFiles(prev => updateFileContent(prev, selectedFile, content));
+    }
+    persistWorkspace(buildWorkspaceState(content));
+  };
+
   const handleFileSelect = (file: FileNode) => {
     if (file.type === 'file') {
       // Save current content before switching
@@ -247,16 +732,37 @@ function App() {
     return result.length > 0 ? result : undefined;
   };
 
-  const handleCompileContent = async (content: string, fileName: string) => {
+  const handleCompileContent = async (
+    content: string,
+    fileId: string,
+    nodes: FileNode[] = files,
+    settings: CompileSettings = compileSettings
+  ) => {
     if (!content.trim()) {
+      compilerClient.cancel();
+      setIsCompiling(false);
       setCompileResult(null);
       return;
     }
 
+    // Compile against the whole workspace, with the unsaved editor content for the entry file
+    const entryPath = getNodePath(nodes, fileId) || 'main.huff';
+    const workspaceFiles = collectWorkspaceFiles(nodes);
+    workspaceFiles.set(entryPath, content);
+
+    // The previous result stays visible until this compile finishes
     setIsCompiling(true);
+    const request = compilerClient.compile(entryPath, workspaceFiles, settings);
+    const generation = compilerClient.latestGeneration;
     try {
-      const result = await huffCompiler.compile(content, fileName);
+      const result = await request;
+      // A newer compile superseded this one
+      if (!result) return;
       setCompileResult(result);
+      setCompileHistory(prev => ({
+        ...prev,
+        [entryPath]: appendHistory(prev[entryPath] || [], result),
+      }));
     } catch (error) {
       console.error('Compilation error:', error);
       setCompileResult({
@@ -264,19 +770,20 @@ function App() {
         errors: ['Compilation failed: ' + (error as Error).message],
       });
     } finally {
-      setIsCompiling(false);
+      if (generation === compilerClient.latestGeneration) {
+        setIsCompiling(false);
+      }
     }
   };
 
   const handleCompile = async () => {
-    const file = findFileById(files, selectedFile || '');
-    const fileName = file?.name || 'main.huff';
-    await handleCompileContent(currentContent, fileName);
+    if (!selectedFile) return;
+    await handleCompileContent(currentContent, selectedFile);
   };
 
   const handleFileCreate = (parentId: string | null, name: string, type: 'file' | 'folder') => {
     const newNode: FileNode = {
-      id: Date.now().toString(),
+      id: createNodeId(),
       name: name.endsWith('.huff') || type === 'folder' ? name : `${name}.huff`,
       type,
       content: type === 'file' ? '// New Huff file\n' : undefined,
@@ -362,6 +869,7 @@ function App() {
     monaco.languages.register({ id: 'huff' });
     monaco.languages.setMonarchTokensProvider('huff', huffLanguage);
     monaco.editor.defineTheme('huff-theme', huffTheme);
+    registerHuffLanguageFeatures(monaco);
   };
 
   const handleEditorDidMount = (
@@ -369,12 +877,61 @@ function App() {
     monaco: typeof import('monaco-editor')
   ) => {
     setEditorInstance(editor);
+    monacoRef.current = monaco;
+    if (!modelsRef.current) {
+      // Renames can edit files other than the open one
+      modelsRef.current = new WorkspaceModels(monaco, (path, content) => {
+        setFiles(prev => {
+          const node = findNodeByPath(prev, path);
+          return node ? updateFileContent(prev, node.id, content) : prev;
+        });
+      });
+      // Go to definition and references in another file switch the open file
+      monaco.editor.registerEditorOpener({
+        openCodeEditor(_source, resource, selectionOrPosition) {
+          if (resource.scheme !== 'file') return false;
+          const position =
+            selectionOrPosition && 'startLineNumber' in selectionOrPosition
+              ? {
+                  lineNumber: selectionOrPosition.startLineNumber,
+                  column: selectionOrPosition.startColumn,
+                }
+              : selectionOrPosition || { lineNumber: 1, column: 1 };
+          return openLocationRef.current({
+            file: resource.path.replace(/^\//, ''),
+            ...position,
+          });
+        },
+      });
+    }
+    // Track the cursor for the bytecode highlight, the outline and the breadcrumbs
+    editor.onDidChangeCursorSelection(event => {
+      const model = editor.getModel();
+      if (!model) return;
+      setEditorSelection({
+        start: model.getOffsetAt(event.selection.getStartPosition()),
+        end: model.getOffsetAt(event.selection.getEndPosition()),
+      });
+    });
+    // Clicking the glyph margin toggles a breakpoint
+    editor.onMouseDown(event => {
+      if (event.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN) {
+        const lineNumber = event.target.position?.lineNumber;
+        if (lineNumber) toggleBreakpointRef.current(lineNumber);
+      }
+    });
     // Set keyboard shortcuts
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-      // Save current file
-      if (selectedFile) {
-        setFiles(prev => updateFileContent(prev, selectedFile, currentContent));
+      // Format, then save current file and persist the workspace
+      const model = editor.getModel();
+      if (!model) return;
+      const edits = huffFormattingEdits(model, model.getOptions());
+      if (edits.length > 0) {
+        editor.pushUndoStop();
+        editor.executeEdits('format-on-save', edits);
+        editor.pushUndoStop();
       }
+      saveRef.current(model.getValue());
     });
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => {
       handleCompile();
@@ -402,13 +959,34 @@ function App() {
     return (showRuntime ? compileResult.runtime : compileResult.bytecode) || '';
   }, [compileResult, showRuntime]);
 
-  const handleBytecodeHover = (sourceStart: number | null, sourceEnd: number | null) => {
+  // ABI from the compiler, or from the declarations in the compiled files if it has none
+  const currentAbi = useMemo(() => {
+    const entries = normalizeAbi(compileResult?.abi);
+    if (entries.length > 0 || !selectedFile) return { entries, fromSource: false };
+    const path = getNodePath(files, selectedFile);
+    const symbols = path ? huffWorkspace.getIncludedFiles(path).flatMap(file => file.symbols) : [];
+    return { entries: abiFromSymbols(symbols), fromSource: true };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compileResult]);
+
+  const contractName = (
+    (selectedFile && findNodeById(files, selectedFile)?.name) ||
+    'contract'
+  ).replace(/\.huff$/, '');
+
+  // Highlight a source range in the editor, replacing the decorations held in the given ref
+  const highlightSource = (
+    decorations: MutableRefObject<string[]>,
+    sourceStart: number | null,
+    sourceEnd: number | null,
+    className: string
+  ) => {
     if (!editorInstance) return;
 
     // Clear previous decorations
-    if (decorationsRef.current.length > 0) {
-      editorInstance.deltaDecorations(decorationsRef.current, []);
-      decorationsRef.current = [];
+    if (decorations.current.length > 0) {
+      editorInstance.deltaDecorations(decorations.current, []);
+      decorations.current = [];
     }
 
     if (sourceStart !== null && sourceEnd !== null) {
@@ -431,15 +1009,15 @@ function App() {
               endColumn: endPos.column,
             },
             options: {
-              className: 'source-highlight',
-              inlineClassName: 'source-highlight-inline',
+              className,
+              inlineClassName: `${className}-inline`,
               isWholeLine: false,
             },
           },
         ]
       );
 
-      decorationsRef.current = newDecorations;
+      decorations.current = newDecorations;
 
       // Auto-scroll to the highlighted range
       editorInstance.revealLineInCenter(startPos.lineNumber);
@@ -449,6 +1027,15 @@ function App() {
     }
   };
 
+  const handleBytecodeHover = (sourceStart: number | null, sourceEnd: number | null) => {
+    highlightSource(decorationsRef, sourceStart, sourceEnd, 'source-highlight');
+  };
+
+  // Source of the instruction the debugger is paused at
+  const handleDebugLocation = (sourceStart: number | null, sourceEnd: number | null) => {
+    highlightSource(debugDecorationsRef, sourceStart, sourceEnd, 'debug-highlight');
+  };
+
   return (
     <div className="app">
       <div className="header">
@@ -457,6 +1044,46 @@ function App() {
           <span className="version">v1.3.0</span>
         </div>
         <div className="header-right">
+          {notice && <span className="header-notice">{notice}</span>}
+          <WorkspaceSwitcher
+            workspaces={workspaceNames}
+            current={workspaceName}
+            onSwitch={handleWorkspaceSwitch}
+            onCreate={handleWorkspaceCreate}
+            onDelete={handleWorkspaceDelete}
+            onReset={handleWorkspaceReset}
+          />
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,.huff"
+            multiple
+            hidden
+            onChange={e => {
+              handleFilesDrop(null, Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+          <button
+            className="header-btn"
+            onClick={() => importInputRef.current?.click()}
+            title="Import a zip archive or .huff files"
+          >
+            <Upload size={16} />
+            Import
+          </button>
+          <button
+            className="header-btn"
+            onClick={handleExport}
+            title="Download the workspace and artifacts as a zip archive"
+          >
+            <Download size={16} />
+            Export
+          </button>
+          <button className="header-btn" onClick={handleShare} title="Copy a shareable link">
+            <Share2 size={16} />
+            Share
+          </button>
           <button
             className={`auto-compile-toggle ${autoCompile ? 'active' : ''}`}
             onClick={() => setAutoCompile(!autoCompile)}
@@ -481,15 +1108,27 @@ function App() {
       <div className="main-content">
         <Allotment>
           <Allotment.Pane minSize={200} preferredSize={250}>
-            <FileTree
-              files={files}
-              selectedFile={selectedFile}
-              onFileSelect={handleFileSelect}
-              onFileCreate={handleFileCreate}
-              onFileDelete={handleFileDelete}
-              onFileRename={handleFileRename}
-              onToggleFolder={handleToggleFolder}
-            />
+            <Allotment vertical>
+              <Allotment.Pane minSize={120}>
+                <FileTree
+                  files={files}
+                  selectedFile={selectedFile}
+                  onFileSelect={handleFileSelect}
+                  onFileCreate={handleFileCreate}
+                  onFileDelete={handleFileDelete}
+                  onFileRename={handleFileRename}
+                  onToggleFolder={handleToggleFolder}
+                  onFilesDrop={handleFilesDrop}
+                />
+              </Allotment.Pane>
+              <Allotment.Pane minSize={80} preferredSize="40%">
+                <OutlinePanel
+                  items={outline}
+                  activeItem={cursorSymbols[cursorSymbols.length - 1]}
+                  onSelect={revealOffset}
+                />
+              </Allotment.Pane>
+            </Allotment>
           </Allotment.Pane>
 
           <Allotment.Pane>
@@ -499,13 +1138,17 @@ function App() {
                   {selectedFile ? (
                     <>
                       <div className="editor-header">
-                        <FileText size={14} />
-                        <span>{findFileById(files, selectedFile)?.name || 'Untitled'}</span>
+                        <Breadcrumbs
+                          path={selectedPath || 'Untitled'}
+                          symbols={cursorSymbols}
+                          onSelect={revealOffset}
+                        />
                       </div>
                       <MonacoEditor
                         height="calc(100% - 32px)"
                         language="huff"
                         theme="huff-theme"
+                        path={fileUri(getNodePath(files, selectedFile) || 'untitled.huff')}
                         value={currentContent}
                         onChange={handleContentChange}
                         beforeMount={handleEditorWillMount}
@@ -516,6 +1159,7 @@ function App() {
                           wordWrap: 'on',
                           automaticLayout: true,
                           scrollBeyondLastLine: false,
+                          glyphMargin: true,
                         }}
                       />
                     </>
@@ -532,39 +1176,200 @@ function App() {
                 <div className="output-container">
                   <div className="output-header">
                     <div>
-                      <Binary size={14} />
-                      <span>{showRuntime ? 'Runtime' : 'Bytecode'} Output</span>
-                    </div>
-                    {compileResult?.success && (
-                      <div className="output-toggle">
-                        <span className={`toggle-label-left ${!showRuntime ? 'active' : ''}`}>
-                          Bytecode
-                        </span>
-                        <label className="toggle-switch">
-                          <input
-                            type="checkbox"
-                            checked={showRuntime}
-                            onChange={e => setShowRuntime(e.target.checked)}
-                          />
-                          <span className="toggle-slider"></span>
-                        </label>
-                        <span className={`toggle-label-right ${showRuntime ? 'active' : ''}`}>
-                          Runtime
+                      <button
+                        className={`output-tab ${outputTab === 'bytecode' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('bytecode')}
+                      >
+                        <Binary size={14} />
+                        <span>{showRuntime ? 'Runtime' : 'Bytecode'} Output</span>
+                      </button>
+                      <button
+                        className={`output-tab ${outputTab === 'abi' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('abi')}
+                      >
+                        <Braces size={14} />
+                        <span>ABI</span>
+                      </button>
+                      <button
+                        className={`output-tab ${outputTab === 'report' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('report')}
+                      >
+                        <PieChart size={14} />
+                        <span>Size Report</span>
+                      </button>
+                      <button
+                        className={`output-tab ${outputTab === 'cfg' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('cfg')}
+                      >
+                        <Network size={14} />
+                        <span>CFG</span>
+                      </button>
+                      <button
+                        className={`output-tab ${outputTab === 'diff' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('diff')}
+                      >
+                        <GitCompare size={14} />
+                        <span>Diff</span>
+                      </button>
+                      <button
+                        className={`output-tab ${outputTab === 'run' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('run')}
+                      >
+                        <Cpu size={14} />
+                        <span>Run</span>
+                      </button>
+                      <button
+                        className={`output-tab ${outputTab === 'debug' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('debug')}
+                      >
+                        <Bug size={14} />
+                        <span>Debug</span>
+                      </button>
+                      <button
+                        className={`output-tab ${outputTab === 'tests' ? 'active' : ''}`}
+                        onClick={() => setOutputTab('tests')}
+                      >
+                        <FlaskConical size={14} />
+                        <span>Tests</span>
+                      </button>
+                      {isCompiling && compileResult && (
+                        <span className="compiling-indicator">Compiling...</span>
+                      )}
+                      {compileResult?.settings && (
+                        <span
+                          className="compile-settings-summary"
+                          title="Compiler options used for this output"
+                        >
+                          {describeCompileSettings(compileResult.settings)}
                         </span>
-                      </div>
-                    )}
+                      )}
+                    </div>
+                    <div className="output-actions">
+                      {(outputTab === 'diff' ||
+                        (compileResult?.success &&
+                          (outputTab === 'bytecode' || outputTab === 'report'))) && (
+                        <div className="output-toggle">
+                          <span className={`toggle-label-left ${!showRuntime ? 'active' : ''}`}>
+                            Bytecode
+                          </span>
+                          <label className="toggle-switch">
+                            <input
+                              type="checkbox"
+                              checked={showRuntime}
+                              onChange={e => setShowRuntime(e.target.checked)}
+                            />
+                            <span className="toggle-slider"></span>
+                          </label>
+                          <span className={`toggle-label-right ${showRuntime ? 'active' : ''}`}>
+                            Runtime
+                          </span>
+                        </div>
+                      )}
+                      {compileResult?.success && (
+                        <ArtifactExportMenu
+                          compileResult={compileResult}
+                          abi={currentAbi.entries}
+                          sourceName={selectedPath || 'untitled.huff'}
+                          source={currentContent}
+                          contractName={contractName}
+                        />
+                      )}
+                      <button
+                        className={`output-action ${showCompileSettings ? 'active' : ''}`}
+                        onClick={() => setShowCompileSettings(!showCompileSettings)}
+                        title="Compiler and lint options"
+                      >
+                        <SlidersHorizontal size={14} />
+                      </button>
+                    </div>
                   </div>
 
-                  <div className="output-content">
-                    {compileResult ? (
-                      compileResult.success ? (
+                  {showCompileSettings && (
+                    <CompileSettingsPanel
+                      settings={compileSettings}
+                      macros={[
+                        ...new Set(
+                          huffWorkspace
+                            .getSymbols()
+                            .filter(symbol => symbol.kind === 'macro' || symbol.kind === 'fn')
+                            .map(symbol => symbol.name)
+                        ),
+                      ]}
+                      onChange={setCompileSettings}
+                    />
+                  )}
+                  {showCompileSettings && (
+                    <LintRulesPanel settings={lintSettings} onChange={setLintSettings} />
+                  )}
+
+                  <div
+                    className={`output-content ${isCompiling && compileResult && outputTab !== 'tests' && outputTab !== 'diff' ? 'stale' : ''}`}
+                  >
+                    {outputTab === 'tests' ? (
+                      <TestsPanel
+                        files={liveFiles}
+                        settings={compileSettings}
+                        onOpen={openLocation}
+                      />
+                    ) : outputTab === 'diff' ? (
+                      <BytecodeDiffPanel
+                        history={currentHistory}
+                        runtime={showRuntime}
+                        onPin={handlePinBaseline}
+                      />
+                    ) : compileResult ? (
+                      compileResult.success && outputTab === 'abi' ? (
+                        <AbiPanel
+                          abi={currentAbi.entries}
+                          fromSource={currentAbi.fromSource}
+                          contractName={contractName}
+                        />
+                      ) : compileResult.success && outputTab === 'report' ? (
+                        <MacroReportPanel
+                          bytecode={currentBytecode}
+                          sourceMap={currentSourceMap}
+                          path={selectedPath || 'untitled.huff'}
+                          source={currentContent}
+                          evmVersion={compileResult.settings?.evmVersion}
+                          onSelect={revealOffset}
+                        />
+                      ) : compileResult.success && outputTab === 'cfg' ? (
+                        <CfgPanel
+                          bytecode={compileResult.runtime || ''}
+                          sourceMap={compileResult.runtime_map}
+                          path={selectedPath || 'untitled.huff'}
+                          source={currentContent}
+                          evmVersion={compileResult.settings?.evmVersion}
+                          onSelect={handleBytecodeHover}
+                        />
+                      ) : compileResult.success && outputTab === 'run' ? (
+                        <ExecutionPanel
+                          compileResult={compileResult}
+                          abi={currentAbi.entries}
+                          form={executionForm}
+                          onFormChange={setExecutionForm}
+                        />
+                      ) : compileResult.success && outputTab === 'debug' ? (
+                        <DebuggerPanel
+                          compileResult={compileResult}
+                          form={executionForm}
+                          source={currentContent}
+                          breakpoints={currentBreakpoints}
+                          onLocationChange={handleDebugLocation}
+                        />
+                      ) : compileResult.success ? (
                         <>
+                          <SizeBudgetPanel
+                            sizes={codeSizes(compileResult)}
+                            limits={sizeLimits}
+                            onLimitsChange={setSizeLimits}
+                          />
                           <div className="bytecode-stats">
                             {currentBytecode && (
                               <>
-                                <span>Size: {(currentBytecode.length || 2 - 2) / 2} bytes</span>
+                                <span>Size: {hexByteLength(currentBytecode)} bytes</span>
                                 <span>•</span>
-                                <span>Length: {(currentBytecode.length || 2) - 2} chars</span>
+                                <span>Length: {stripHexPrefix(currentBytecode).length} chars</span>
                                 {currentSourceMap && (
                                   <>
                                     <span>•</span>
@@ -578,18 +1383,37 @@ function App() {
                             bytecode={currentBytecode}
                             sourceMap={currentSourceMap}
                             source={currentContent}
+                            evmVersion={compileResult.settings?.evmVersion}
                             onHover={handleBytecodeHover}
+                            selection={editorSelection}
                           />
                         </>
                       ) : (
                         <div className="compile-errors">
                           <AlertCircle size={20} />
                           <h3>Compilation Errors:</h3>
-                          {compileResult.errors?.map((error, i) => (
-                            <div key={i} className="error-message">
-                              {error}
-                            </div>
-                          ))}
+                          {compileResult.diagnostics
+                            ? compileResult.diagnostics.map((diagnostic, i) => (
+                                <div
+                                  key={i}
+                                  className={`error-message ${diagnostic.range ? 'clickable' : ''}`}
+                                  onClick={() => handleDiagnosticClick(diagnostic)}
+                                  title={diagnostic.range ? 'Go to error' : undefined}
+                                >
+                                  {diagnostic.range && (
+                                    <div className="error-location">
+                                      {diagnostic.file}:{diagnostic.range.startLineNumber}:
+                                      {diagnostic.range.startColumn}
+                                    </div>
+                                  )}
+                                  {diagnostic.raw}
+                                </div>
+                              ))
+                            : compileResult.errors?.map((error, i) => (
+                                <div key={i} className="error-message">
+                                  {error}
+                                </div>
+                              ))}
                         </div>
                       )
                     ) : (
@@ -609,6 +1433,17 @@ function App() {
           </Allotment.Pane>
         </Allotment>
       </div>
+
+      {pendingImport && (
+        <ImportConflictDialog
+          conflicts={pendingImport.conflicts}
+          onConfirm={resolutions => {
+            applyImport(pendingImport.parentId, pendingImport.files, resolutions);
+            setPendingImport(null);
+          }}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,209 @@
+// Normalised JSON ABI, built from the compiler output or from the #define declarations
+import { HuffSymbol, canonicalIntType } from '../language/symbols';
+import { eventTopic, formatSignature, functionSelector } from './selectors';
+
+export interface AbiParam {
+  name: string;
+  // Solidity ABI type, e.g. "uint256", "address[]" or "tuple[2]"
+  type: string;
+  components?: AbiParam[];
+  indexed?: boolean;
+}
+
+export type AbiEntryType = 'function' | 'event' | 'error' | 'constructor' | 'fallback' | 'receive';
+
+export interface AbiEntry {
+  type: AbiEntryType;
+  name?: string;
+  inputs: AbiParam[];
+  outputs?: AbiParam[];
+  stateMutability?: string;
+  anonymous?: boolean;
+}
+
+// Values of a Map, an array or a plain object; the WASM output may use any of them
+function valuesOf(collection: unknown): unknown[] {
+  if (!collection) return [];
+  if (collection instanceof Map) return [...collection.values()];
+  if (Array.isArray(collection)) return collection;
+  if (typeof collection === 'object') return Object.values(collection);
+  return [];
+}
+
+function field(value: unknown, key: string): unknown {
+  if (value instanceof Map) return value.get(key);
+  // Own properties only, so "constructor" does not pick up Object.prototype.constructor
+  if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)) {
+    return (value as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+// Split "a,(b,c),d" on top-level commas
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current);
+  return parts.map(part => part.trim());
+}
+
+// Parameter from a type as written in Huff, e.g. "uint", "address[]" or "(uint256,bool)[2]"
+export function paramFromType(type: string, name = ''): AbiParam {
+  const text = type.replace(/\s/g, '');
+  if (text.startsWith('(')) {
+    const close = text.lastIndexOf(')');
+    return {
+      name,
+      type: `tuple${text.slice(close + 1)}`,
+      components: splitTopLevel(text.slice(1, close)).map(inner => paramFromType(inner)),
+    };
+  }
+  return { name, type: canonicalIntType(text) };
+}
+
+// Type of a huff-neo function parameter, whose "kind" is a serialised enum
+function kindToType(kind: unknown): string | null {
+  if (typeof kind === 'string') {
+    const lower = kind.toLowerCase();
+    return lower === 'bytes' || lower === 'string' || lower === 'address' || lower === 'bool'
+      ? lower
+      : kind;
+  }
+  if (!kind || typeof kind !== 'object') return null;
+  const [variant, value] = Object.entries(kind)[0] || [];
+  switch (variant) {
+    case 'Uint':
+      return `uint${value}`;
+    case 'Int':
+      return `int${value}`;
+    case 'FixedBytes':
+      return `bytes${value}`;
+    case 'Array':
+    case 'FixedArray': {
+      const [inner, sizes] = Array.isArray(value) ? value : [value, []];
+      const base = kindToType(inner);
+      if (!base) return null;
+      const dims = valuesOf(sizes) as number[];
+      return dims.length > 0
+        ? base + dims.map(size => (size ? `[${size}]` : '[]')).join('')
+        : `${base}[]`;
+    }
+    case 'Tuple':
+      return `(${valuesOf(value).map(kindToType).join(',')})`;
+    default:
+      return null;
+  }
+}
+
+function normalizeParam(raw: unknown): AbiParam {
+  const name = String(field(raw, 'name') ?? '');
+  const indexed = field(raw, 'indexed') === true ? { indexed: true } : {};
+
+  const type = field(raw, 'type');
+  if (typeof type === 'string') {
+    const components = field(raw, 'components');
+    return {
+      name,
+      type,
+      ...(components ? { components: valuesOf(components).map(normalizeParam) } : {}),
+      ...indexed,
+    };
+  }
+
+  const kindType = kindToType(field(raw, 'kind')) || String(field(raw, 'internal_type') ?? '');
+  return { ...paramFromType(kindType, name), ...indexed };
+}
+
+function normalizeEntry(type: AbiEntryType, raw: unknown): AbiEntry {
+  const mutability = field(raw, 'stateMutability') ?? field(raw, 'state_mutability');
+  const entry: AbiEntry = {
+    type,
+    name: field(raw, 'name') as string | undefined,
+    inputs: valuesOf(field(raw, 'inputs')).map(normalizeParam),
+  };
+  if (type === 'function') {
+    entry.outputs = valuesOf(field(raw, 'outputs')).map(normalizeParam);
+  }
+  if (typeof mutability === 'string') {
+    entry.stateMutability = mutability.toLowerCase();
+  }
+  if (type === 'event') {
+    entry.anonymous = field(raw, 'anonymous') === true;
+  }
+  return entry;
+}
+
+// Normalise a standard JSON ABI or the map-based ABI produced by huff-neo
+export function normalizeAbi(raw: unknown): AbiEntry[] {
+  if (!raw) return [];
+
+  if (Array.isArray(raw)) {
+    return raw
+      .filter(entry => typeof field(entry, 'type') === 'string')
+      .map(entry => normalizeEntry(field(entry, 'type') as AbiEntryType, entry));
+  }
+
+  const entries: AbiEntry[] = [];
+  const constructor = field(raw, 'constructor');
+  if (constructor) entries.push(normalizeEntry('constructor', constructor));
+  for (const fn of valuesOf(field(raw, 'functions'))) entries.push(normalizeEntry('function', fn));
+  for (const event of valuesOf(field(raw, 'events'))) entries.push(normalizeEntry('event', event));
+  for (const error of valuesOf(field(raw, 'errors'))) entries.push(normalizeEntry('error', error));
+  if (field(raw, 'fallback') === true) entries.push({ type: 'fallback', inputs: [] });
+  if (field(raw, 'receive') === true) entries.push({ type: 'receive', inputs: [] });
+  return entries;
+}
+
+// ABI from the function, event and error declarations in the source
+export function abiFromSymbols(symbols: HuffSymbol[]): AbiEntry[] {
+  const entries: AbiEntry[] = [];
+  for (const symbol of symbols) {
+    if (symbol.kind !== 'function' && symbol.kind !== 'event' && symbol.kind !== 'error') continue;
+    const entry: AbiEntry = {
+      type: symbol.kind,
+      name: symbol.name,
+      inputs: symbol.params.map(type => paramFromType(type)),
+    };
+    if (symbol.kind === 'function') {
+      entry.outputs = (symbol.outputs || []).map(type => paramFromType(type));
+      entry.stateMutability = symbol.mutability || 'nonpayable';
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+// Canonical type used in signatures, with tuples spelled out
+export function canonicalType(param: AbiParam): string {
+  if (!param.type.startsWith('tuple')) return param.type;
+  const inner = (param.components || []).map(canonicalType).join(',');
+  return `(${inner})${param.type.slice('tuple'.length)}`;
+}
+
+export function entrySignature(entry: AbiEntry): string {
+  return formatSignature(entry.name || entry.type, entry.inputs.map(canonicalType));
+}
+
+// 4-byte selector for functions and errors, topic 0 for events
+export function entryHash(entry: AbiEntry): string | null {
+  switch (entry.type) {
+    case 'function':
+    case 'error':
+      return functionSelector(entrySignature(entry));
+    case 'event':
+      return eventTopic(entrySignature(entry));
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,298 @@
+// ABI encoding and decoding of calldata, return data and revert data
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { AbiEntry, AbiParam, entryHash } from './abi';
+
+// Decoded ABI values: bigint for integers, 0x-prefixed hex for addresses and bytes
+export type AbiValue = bigint | boolean | string | AbiValue[];
+
+const WORD = 64; // hex characters per 32-byte word
+
+// Standard Error(string) and Panic(uint256) reverts
+const ERROR_STRING: AbiEntry = {
+  type: 'error',
+  name: 'Error',
+  inputs: [{ name: 'message', type: 'string' }],
+};
+const PANIC: AbiEntry = {
+  type: 'error',
+  name: 'Panic',
+  inputs: [{ name: 'code', type: 'uint256' }],
+};
+
+// Element of an array type: "uint256[2][]" -> "uint256[2]"
+function arrayElement(param: AbiParam): { element: AbiParam; length: number | null } | null {
+  const match = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (!match) return null;
+  return {
+    element: { ...param, type: match[1] },
+    length: match[2] === '' ? null : Number(match[2]),
+  };
+}
+
+function isDynamic(param: AbiParam): boolean {
+  if (param.type === 'bytes' || param.type === 'string') return true;
+  const array = arrayElement(param);
+  if (array) return array.length === null || isDynamic(array.element);
+  if (param.type === 'tuple') return (param.components || []).some(isDynamic);
+  return false;
+}
+
+// Size in hex characters of a static parameter's head
+function headSize(param: AbiParam): number {
+  if (isDynamic(param)) return WORD;
+  const array = arrayElement(param);
+  if (array) return (array.length || 0) * headSize(array.element);
+  if (param.type === 'tuple') return (param.components || []).reduce((n, c) => n + headSize(c), 0);
+  return WORD;
+}
+
+function strip0x(hex: string): string {
+  return hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+}
+
+function toWord(value: bigint): string {
+  return value.toString(16).padStart(WORD, '0');
+}
+
+function padRight(hex: string): string {
+  const length = Math.ceil(hex.length / WORD) * WORD;
+  return hex.padEnd(length, '0');
+}
+
+function bitSize(type: string, prefix: string): number {
+  const bits = type.slice(prefix.length);
+  return bits ? Number(bits) : 256;
+}
+
+function toBigInt(value: AbiValue, type: string): bigint {
+  try {
+    if (typeof value === 'bigint') return value;
+    if (typeof value === 'boolean') return value ? 1n : 0n;
+    if (typeof value === 'string') {
+      const text = value.trim();
+      return text.startsWith('-') ? -BigInt(text.slice(1)) : BigInt(text);
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid ${type} value: ${String(value)}`);
+}
+
+function hexValue(value: AbiValue, type: string): string {
+  const hex = typeof value === 'string' ? strip0x(value.trim()) : '';
+  if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length % 2 !== 0) {
+    throw new Error(`Invalid ${type} value: ${String(value)}`);
+  }
+  return hex.toLowerCase();
+}
+
+function encodeSingle(param: AbiParam, value: AbiValue): string {
+  const { type } = param;
+
+  const array = arrayElement(param);
+  if (array) {
+    if (!Array.isArray(value)) throw new Error(`Expected an array for ${type}`);
+    if (array.length !== null && value.length !== array.length) {
+      throw new Error(`Expected ${array.length} elements for ${type}, got ${value.length}`);
+    }
+    const encoded = encodeParams(
+      value.map(() => array.element),
+      value
+    );
+    return array.length === null ? toWord(BigInt(value.length)) + encoded : encoded;
+  }
+
+  if (type === 'tuple') {
+    const components = param.components || [];
+    if (!Array.isArray(value) || value.length !== components.length) {
+      throw new Error(`Expected ${components.length} tuple components`);
+    }
+    return encodeParams(components, value);
+  }
+
+  if (type.startsWith('uint')) {
+    const number = toBigInt(value, type);
+    if (number < 0n || number >= 1n << BigInt(bitSize(type, 'uint'))) {
+      throw new Error(`${type} out of range: ${number}`);
+    }
+    return toWord(number);
+  }
+
+  if (type.startsWith('int')) {
+    const bits = BigInt(bitSize(type, 'int'));
+    const number = toBigInt(value, type);
+    if (number < -(1n << (bits - 1n)) || number >= 1n << (bits - 1n)) {
+      throw new Error(`${type} out of range: ${number}`);
+    }
+    return toWord(number < 0n ? (1n << 256n) + number : number);
+  }
+
+  if (type === 'bool') {
+    const flag = value === true || value === 'true' || value === '1';
+    if (!flag && value !== false && value !== 'false' && value !== '0') {
+      throw new Error(`Invalid bool value: ${String(value)}`);
+    }
+    return toWord(flag ? 1n : 0n);
+  }
+
+  if (type === 'address') {
+    const hex = hexValue(value, type);
+    if (hex.length !== 40) throw new Error(`Invalid address: ${String(value)}`);
+    return hex.padStart(WORD, '0');
+  }
+
+  if (type === 'bytes' || type === 'string') {
+    const hex = type === 'string' ? bytesToHex(utf8ToBytes(String(value))) : hexValue(value, type);
+    return toWord(BigInt(hex.length / 2)) + padRight(hex);
+  }
+
+  const fixed = type.match(/^bytes(\d+)$/);
+  if (fixed) {
+    const hex = hexValue(value, type);
+    if (hex.length / 2 > Number(fixed[1])) throw new Error(`Value too long for ${type}`);
+    return hex.padEnd(WORD, '0');
+  }
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+// Head/tail encoding of a parameter list
+export function encodeParams(params: AbiParam[], values: AbiValue[]): string {
+  if (params.length !== values.length) {
+    throw new Error(`Expected ${params.length} values, got ${values.length}`);
+  }
+  const headLength = params.reduce((n, param) => n + headSize(param), 0);
+  let head = '';
+  let tail = '';
+  params.forEach((param, i) => {
+    const encoded = encodeSingle(param, values[i]);
+    if (isDynamic(param)) {
+      head += toWord(BigInt((headLength + tail.length) / 2));
+      tail += encoded;
+    } else {
+      head += encoded;
+    }
+  });
+  return head + tail;
+}
+
+function readWord(data: string, offset: number): string {
+  if (offset + WORD > data.length) throw new Error('Data too short');
+  return data.slice(offset, offset + WORD);
+}
+
+function readNumber(data: string, offset: number): number {
+  const value = BigInt('0x' + readWord(data, offset));
+  if (value > BigInt(data.length)) throw new Error('Offset out of range');
+  return Number(value);
+}
+
+function decodeSingle(param: AbiParam, data: string, offset: number): AbiValue {
+  const { type } = param;
+
+  const array = arrayElement(param);
+  if (array) {
+    if (array.length === null) {
+      const length = readNumber(data, offset);
+      return decodeParams(
+        Array.from({ length }, () => array.element),
+        data,
+        offset + WORD
+      );
+    }
+    return decodeParams(
+      Array.from({ length: array.length }, () => array.element),
+      data,
+      offset
+    );
+  }
+
+  if (type === 'tuple') return decodeParams(param.components || [], data, offset);
+
+  const word = readWord(data, offset);
+  if (type.startsWith('uint')) return BigInt('0x' + word);
+  if (type.startsWith('int')) {
+    const value = BigInt('0x' + word);
+    return value >= 1n << 255n ? value - (1n << 256n) : value;
+  }
+  if (type === 'bool') return BigInt('0x' + word) !== 0n;
+  if (type === 'address') return '0x' + word.slice(24);
+
+  if (type === 'bytes' || type === 'string') {
+    const length = readNumber(data, offset) * 2;
+    if (offset + WORD + length > data.length) throw new Error('Data too short');
+    const hex = data.slice(offset + WORD, offset + WORD + length);
+    if (type === 'bytes') return '0x' + hex;
+    const bytes = new Uint8Array(hex.match(/../g)?.map(byte => parseInt(byte, 16)) || []);
+    return new TextDecoder().decode(bytes);
+  }
+
+  const fixed = type.match(/^bytes(\d+)$/);
+  if (fixed) return '0x' + word.slice(0, Number(fixed[1]) * 2);
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+// Decode a parameter list whose encoding starts at the given hex offset
+export function decodeParams(params: AbiParam[], data: string, base = 0): AbiValue[] {
+  let position = base;
+  return params.map(param => {
+    const value = isDynamic(param)
+      ? decodeSingle(param, data, base + readNumber(data, position) * 2)
+      : decodeSingle(param, data, position);
+    position += headSize(param);
+    return value;
+  });
+}
+
+// Parse user input for a parameter: JSON arrays for arrays and tuples, plain text otherwise
+export function parseInput(param: AbiParam, text: string): AbiValue {
+  const isCompound = arrayElement(param) !== null || param.type === 'tuple';
+  if (!isCompound) return text.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`Expected a JSON array for ${param.name || param.type}`);
+  }
+  const toValue = (value: unknown): AbiValue =>
+    Array.isArray(value) ? value.map(toValue) : typeof value === 'boolean' ? value : String(value);
+  return toValue(parsed);
+}
+
+// Display form of a decoded value
+export function formatValue(value: AbiValue): string {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (typeof value === 'string' && !value.startsWith('0x')) return JSON.stringify(value);
+  return String(value);
+}
+
+export function encodeCalldata(entry: AbiEntry, values: AbiValue[]): string {
+  const selector = entry.type === 'constructor' ? '0x' : entryHash(entry) || '0x';
+  return selector + encodeParams(entry.inputs, values);
+}
+
+export interface DecodedData {
+  entry: AbiEntry;
+  values: AbiValue[];
+}
+
+// Decode calldata or revert data by matching its selector against the given entries
+export function decodeWithSelector(entries: AbiEntry[], data: string): DecodedData {
+  const hex = strip0x(data.trim()).toLowerCase();
+  if (hex.length < 8) throw new Error('Data is shorter than a selector');
+  const selector = '0x' + hex.slice(0, 8);
+  const candidates = [...entries, ERROR_STRING, PANIC];
+  const entry = candidates.find(
+    candidate =>
+      (candidate.type === 'function' || candidate.type === 'error') &&
+      entryHash(candidate) === selector
+  );
+  if (!entry) throw new Error(`No function or error with selector ${selector}`);
+  return { entry, values: decodeParams(entry.inputs, hex.slice(8)) };
+}
+
+// Decode return data of a function call
+export function decodeReturnData(entry: AbiEntry, data: string): AbiValue[] {
+  return decodeParams(entry.outputs || [], strip0x(data.trim()).toLowerCase());
+}
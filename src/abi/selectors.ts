@@ -0,0 +1,22 @@
+// Keccak-256 based selectors and topic hashes for ABI signatures
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+export function keccak256(data: string | Uint8Array): string {
+  return '0x' + bytesToHex(keccak_256(typeof data === 'string' ? utf8ToBytes(data) : data));
+}
+
+// Canonical signature such as "transfer(address,uint256)"
+export function formatSignature(name: string, types: string[]): string {
+  return `${name}(${types.join(',')})`;
+}
+
+// 4-byte selector of a function or custom error
+export function functionSelector(signature: string): string {
+  return keccak256(signature).slice(0, 10);
+}
+
+// Topic 0 of an event
+export function eventTopic(signature: string): string {
+  return keccak256(signature);
+}
@@ -0,0 +1,157 @@
+// Compilation output in the artifact formats of Foundry and Hardhat, with solc-style source maps
+import { AbiEntry, entryHash, entrySignature } from '../abi/abi';
+import { findSourceMapEntry } from '../evm/debugSession';
+import { disassemble } from '../evm/disassembler';
+import { DEFAULT_EVM_VERSION, EvmVersion } from '../evm/opcodes';
+import { constructorArgsHex } from '../evm/sizeLimits';
+import { isMacroLike, parseHuffFile } from '../language/symbols';
+import { codeTokens } from '../language/tokenizer';
+import { CompileResult, InternalSourceMapEntry } from './types';
+
+export type ArtifactFormat = 'foundry' | 'hardhat';
+
+// One instruction in a solc source map: s:l:f:j:m
+export interface SolcSourceMapItem {
+  start: number;
+  length: number;
+  // Source file index, -1 for code without a source
+  file: number;
+  // 'i' into a function, 'o' out of one, '-' for a regular jump or no jump
+  jump: 'i' | 'o' | '-';
+  modifierDepth: number;
+}
+
+// huff-neo's source maps hold offsets but not the file they point into, so code expanded from
+// included files would look like it came from the compiled file. Only entries starting on a
+// token inside one of its macro bodies are attributed to it.
+function entryFileMatcher(source: string): (entry: InternalSourceMapEntry) => boolean {
+  const file = parseHuffFile('', source);
+  const bodies = file.symbols.filter(
+    symbol => isMacroLike(symbol) && symbol.bodyStart !== undefined
+  );
+  const tokenStarts = new Set(codeTokens(file.tokens).map(token => token.start));
+  return entry =>
+    tokenStarts.has(entry.source_start) &&
+    bodies.some(body => body.bodyStart! < entry.source_start && entry.source_end <= body.bodyEnd!);
+}
+
+// Source map entries of the compiled file, expanded to one item per instruction. The compiled
+// file is source 0; code from other files has file -1.
+export function solcSourceMapItems(
+  bytecode: string,
+  sourceMap: InternalSourceMapEntry[],
+  source: string,
+  evmVersion: EvmVersion = DEFAULT_EVM_VERSION
+): SolcSourceMapItem[] {
+  const inEntryFile = entryFileMatcher(source);
+  return disassemble(bytecode, evmVersion).map((instruction): SolcSourceMapItem => {
+    const entry = findSourceMapEntry(sourceMap, instruction.pc);
+    return entry
+      ? {
+          start: entry.source_start,
+          length: entry.source_end - entry.source_start,
+          file: inEntryFile(entry) ? 0 : -1,
+          jump: '-',
+          modifierDepth: 0,
+        }
+      : { start: -1, length: -1, file: -1, jump: '-', modifierDepth: 0 };
+  });
+}
+
+// Compressed form: fields equal to the previous item's are left empty, trailing ones dropped
+export function compressSourceMap(items: SolcSourceMapItem[]): string {
+  let previous: string[] = [];
+  return items
+    .map(item => {
+      const fields = [item.start, item.length, item.file, item.jump, item.modifierDepth].map(
+        String
+      );
+      const compressed = fields.map((field, i) => (field === previous[i] ? '' : field));
+      previous = fields;
+      while (compressed.length > 0 && compressed[compressed.length - 1] === '') compressed.pop();
+      return compressed.join(':');
+    })
+    .join(';');
+}
+
+export function solcSourceMap(
+  bytecode: string,
+  sourceMap: InternalSourceMapEntry[] | undefined,
+  source: string,
+  evmVersion?: EvmVersion
+): string {
+  return compressSourceMap(solcSourceMapItems(bytecode, sourceMap || [], source, evmVersion));
+}
+
+// Creation bytecode without the constructor arguments huff-neo appends, which deploy tooling
+// encodes and appends itself
+export function creationBytecode(result: CompileResult): string {
+  const bytecode = withHexPrefix(result.bytecode);
+  const args = constructorArgsHex(result);
+  return args ? bytecode.slice(0, bytecode.length - args.length) : bytecode;
+}
+
+function withHexPrefix(hex: string | undefined): string {
+  if (!hex) return '0x';
+  return hex.startsWith('0x') ? hex : `0x${hex}`;
+}
+
+// Function signatures by selector, as in solc's methodIdentifiers output
+function methodIdentifiers(abi: AbiEntry[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of abi) {
+    if (entry.type !== 'function') continue;
+    result[entrySignature(entry)] = entryHash(entry)!.slice(2);
+  }
+  return result;
+}
+
+export interface ArtifactSource {
+  // Path and content of the compiled file and the contract name derived from it
+  sourceName: string;
+  source: string;
+  contractName: string;
+  abi: AbiEntry[];
+}
+
+// Huff has no libraries or immutables, so link and immutable references are always empty
+export function buildArtifact(
+  format: ArtifactFormat,
+  result: CompileResult,
+  source: ArtifactSource
+): object {
+  const bytecode = creationBytecode(result);
+  const deployedBytecode = withHexPrefix(result.runtime);
+
+  if (format === 'hardhat') {
+    return {
+      _format: 'hh-sol-artifact-1',
+      contractName: source.contractName,
+      sourceName: source.sourceName,
+      abi: source.abi,
+      bytecode,
+      deployedBytecode,
+      linkReferences: {},
+      deployedLinkReferences: {},
+    };
+  }
+
+  const evmVersion = result.settings?.evmVersion;
+  return {
+    abi: source.abi,
+    bytecode: {
+      object: bytecode,
+      sourceMap: solcSourceMap(bytecode, result.constructor_map, source.source, evmVersion),
+      linkReferences: {},
+    },
+    deployedBytecode: {
+      object: deployedBytecode,
+      sourceMap: solcSourceMap(deployedBytecode, result.runtime_map, source.source, evmVersion),
+      linkReferences: {},
+      immutableReferences: {},
+    },
+    methodIdentifiers: methodIdentifiers(source.abi),
+    // Source index of the compiled file in the source maps
+    id: 0,
+  };
+}
@@ -0,0 +1,43 @@
+// Runs the huff-neo WASM compiler off the main thread
+import { huffCompiler } from './huffCompiler';
+import { CompilerRequest, CompilerResponse } from './workerProtocol';
+
+type CompileRequest = Extract<CompilerRequest, { type: 'compile' }>;
+
+// Only the newest request is compiled; older ones still waiting are answered as cancelled
+let pending: CompileRequest | null = null;
+let scheduled = false;
+
+const respond = (response: CompilerResponse) => self.postMessage(response);
+
+const run = async () => {
+  scheduled = false;
+  const request = pending;
+  pending = null;
+  if (!request) return;
+
+  const result = await huffCompiler.compile(request.entryPath, request.files, request.settings);
+  respond({ type: 'result', id: request.id, result });
+};
+
+self.onmessage = (event: MessageEvent<CompilerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    if (pending?.id === message.id) {
+      pending = null;
+      respond({ type: 'cancelled', id: message.id });
+    }
+    return;
+  }
+
+  if (pending) {
+    respond({ type: 'cancelled', id: pending.id });
+  }
+  pending = message;
+  // Let queued messages arrive before compiling, so a burst of edits compiles once
+  if (!scheduled) {
+    scheduled = true;
+    self.setTimeout(run, 0);
+  }
+};
@@ -0,0 +1,109 @@
+// Main-thread side of the compiler worker
+import { CompileResult, CompileSettings, defaultCompileSettings } from './types';
+import { CompilerRequest, CompilerResponse } from './workerProtocol';
+
+export class CompilerClient {
+  private worker: Worker | null = null;
+  private generation = 0;
+  // Resolvers of requests that have not been answered yet, by generation ID
+  private pending = new Map<number, (result: CompileResult | null) => void>();
+  private workerFailed = false;
+
+  // Start the worker ahead of the first compile
+  initialize() {
+    this.getWorker();
+  }
+
+  // Compile in the worker. Resolves to null when a newer compile supersedes this one.
+  compile(
+    entryPath: string,
+    files: Map<string, string>,
+    settings: CompileSettings = defaultCompileSettings
+  ): Promise<CompileResult | null> {
+    const id = ++this.generation;
+    this.cancelPending();
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.compileOnMainThread(id, entryPath, files, settings);
+    }
+
+    return new Promise(resolve => {
+      this.pending.set(id, resolve);
+      this.post({ type: 'compile', id, entryPath, files, settings });
+    });
+  }
+
+  // Drop every outstanding compile, e.g. when the editor is cleared
+  cancel() {
+    this.generation++;
+    this.cancelPending();
+  }
+
+  // Generation ID of the most recent compile request
+  get latestGeneration(): number {
+    return this.generation;
+  }
+
+  private cancelPending() {
+    for (const [id, resolve] of this.pending) {
+      resolve(null);
+      this.post({ type: 'cancel', id });
+    }
+    this.pending.clear();
+  }
+
+  private post(request: CompilerRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+    try {
+      this.worker = new Worker(new URL('./compiler.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      this.worker.onmessage = (event: MessageEvent<CompilerResponse>) => this.handleResponse(event);
+      this.worker.onerror = event => {
+        console.error('Compiler worker failed, compiling on the main thread:', event.message);
+        this.failWorker();
+      };
+    } catch (error) {
+      console.error('Failed to start compiler worker:', error);
+      this.workerFailed = true;
+    }
+    return this.worker;
+  }
+
+  private handleResponse(event: MessageEvent<CompilerResponse>) {
+    const response = event.data;
+    const resolve = this.pending.get(response.id);
+    if (!resolve) return;
+    this.pending.delete(response.id);
+    resolve(response.type === 'result' ? response.result : null);
+  }
+
+  private failWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+    for (const resolve of this.pending.values()) {
+      resolve({ success: false, errors: ['The compiler worker stopped unexpectedly'] });
+    }
+    this.pending.clear();
+  }
+
+  // Fallback for browsers without module workers; the compiler is only loaded when needed
+  private async compileOnMainThread(
+    id: number,
+    entryPath: string,
+    files: Map<string, string>,
+    settings: CompileSettings
+  ): Promise<CompileResult | null> {
+    const { huffCompiler } = await import('./huffCompiler');
+    const result = await huffCompiler.compile(entryPath, files, settings);
+    return id === this.generation ? result : null;
+  }
+}
+
+export const compilerClient = new CompilerClient();
@@ -0,0 +1,137 @@
+// Structured diagnostics parsed from huff-neo error messages
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface DiagnosticRange {
+  // 1-based, same shape as a Monaco IRange
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+export interface Diagnostic {
+  // Workspace path of the file the diagnostic belongs to
+  file: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  // Missing when the message carries no location
+  range?: DiagnosticRange;
+  // Original compiler output
+  raw: string;
+}
+
+// "-> ./src/Main.huff:120-134": huff-neo spans as character offsets
+const OFFSET_SPAN = /->\s*(\S+?\.huff):(\d+)-(\d+)/;
+// "src/Main.huff:12:5" or "src/Main.huff:12"
+const LINE_SPAN = /(\S+?\.huff):(\d+)(?::(\d+))?/;
+// Source excerpt lines like "  > 12 |     dup1 ..."
+const EXCERPT_LINE = /^\s*>\s*(\d+)\s*\|/m;
+// "line 12, column 5"
+const PROSE_SPAN = /line\s+(\d+)(?:,?\s*col(?:umn)?\s+(\d+))?/i;
+
+function offsetToPosition(content: string, offset: number): { line: number; column: number } {
+  const clamped = Math.max(0, Math.min(offset, content.length));
+  const before = content.slice(0, clamped);
+  const line = before.split('\n').length;
+  const column = clamped - before.lastIndexOf('\n');
+  return { line, column };
+}
+
+// Map a path from the compiler output onto a workspace path
+function resolvePath(path: string, files: Map<string, string>): string | null {
+  const normalized = path.replace(/^\.\//, '');
+  if (files.has(normalized)) return normalized;
+  for (const candidate of files.keys()) {
+    if (candidate.endsWith(`/${normalized}`) || normalized.endsWith(`/${candidate}`)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Range covering the whole given line
+function lineRange(content: string | undefined, line: number): DiagnosticRange {
+  const text = content?.split('\n')[line - 1] ?? '';
+  const firstColumn = text.length - text.trimStart().length + 1;
+  return {
+    startLineNumber: line,
+    startColumn: firstColumn,
+    endLineNumber: line,
+    endColumn: Math.max(text.length + 1, firstColumn + 1),
+  };
+}
+
+function parseMessage(raw: string): { severity: DiagnosticSeverity; message: string } {
+  const lines = raw
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('->') && !/^>?\s*\d*\s*\|/.test(line));
+  const first = lines[0] || raw.trim() || 'Compilation failed';
+  const severity: DiagnosticSeverity = /^warn(ing)?\b/i.test(first) ? 'warning' : 'error';
+  const message = first.replace(/^(error|warning|warn)\s*(\[[^\]]*\])?\s*:\s*/i, '') || first;
+  return { severity, message };
+}
+
+export function parseDiagnostic(
+  raw: string,
+  files: Map<string, string>,
+  entryPath: string
+): Diagnostic {
+  const { severity, message } = parseMessage(raw);
+
+  const offsetMatch = raw.match(OFFSET_SPAN);
+  if (offsetMatch) {
+    const file = resolvePath(offsetMatch[1], files) || entryPath;
+    const content = files.get(file) || '';
+    const start = offsetToPosition(content, Number(offsetMatch[2]));
+    const end = offsetToPosition(
+      content,
+      Math.max(Number(offsetMatch[3]), Number(offsetMatch[2]) + 1)
+    );
+    return {
+      file,
+      severity,
+      message,
+      range: {
+        startLineNumber: start.line,
+        startColumn: start.column,
+        endLineNumber: end.line,
+        endColumn: end.column,
+      },
+      raw,
+    };
+  }
+
+  const lineMatch = raw.match(LINE_SPAN);
+  if (lineMatch) {
+    const file = resolvePath(lineMatch[1], files) || entryPath;
+    const line = Number(lineMatch[2]);
+    const range = lineRange(files.get(file), line);
+    if (lineMatch[3]) {
+      range.startColumn = Number(lineMatch[3]);
+      range.endColumn = Math.max(range.endColumn, range.startColumn + 1);
+    }
+    return { file, severity, message, range, raw };
+  }
+
+  const excerptMatch = raw.match(EXCERPT_LINE) || raw.match(PROSE_SPAN);
+  if (excerptMatch) {
+    const range = lineRange(files.get(entryPath), Number(excerptMatch[1]));
+    if (excerptMatch[2]) {
+      range.startColumn = Number(excerptMatch[2]);
+      range.endColumn = Math.max(range.endColumn, range.startColumn + 1);
+    }
+    return { file: entryPath, severity, message, range, raw };
+  }
+
+  return { file: entryPath, severity, message, raw };
+}
+
+export function parseDiagnostics(
+  errors: string[],
+  files: Map<string, string>,
+  entryPath: string
+): Diagnostic[] {
+  return errors.map(error => parseDiagnostic(error, files, entryPath));
+}
@@ -0,0 +1,44 @@
+// Recent successful compilations of a file, kept in memory for diffing
+import { CompileResult } from './types';
+
+export const MAX_HISTORY = 20;
+
+export interface CompileHistoryEntry {
+  id: number;
+  compiledAt: number;
+  result: CompileResult;
+  // Baseline the other compilations are compared against by default
+  pinned?: boolean;
+}
+
+let nextId = 1;
+
+function sameOutput(a: CompileResult, b: CompileResult): boolean {
+  return a.bytecode === b.bytecode && a.runtime === b.runtime;
+}
+
+// Add a result unless its output matches the latest entry; the oldest entries are dropped
+// first, never the pinned baseline
+export function appendHistory(
+  entries: CompileHistoryEntry[],
+  result: CompileResult
+): CompileHistoryEntry[] {
+  if (!result.success) return entries;
+  const latest = entries[entries.length - 1];
+  if (latest && sameOutput(latest.result, result)) return entries;
+
+  const next = [...entries, { id: nextId++, compiledAt: Date.now(), result }];
+  while (next.length > MAX_HISTORY) {
+    const index = next.findIndex(entry => !entry.pinned);
+    next.splice(index, 1);
+  }
+  return next;
+}
+
+// Pin one entry as the baseline, or clear the baseline with null
+export function pinHistoryEntry(
+  entries: CompileHistoryEntry[],
+  id: number | null
+): CompileHistoryEntry[] {
+  return entries.map(entry => ({ ...entry, pinned: entry.id === id }));
+}
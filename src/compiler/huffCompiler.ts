@@ -1,25 +1,7 @@
 // Huff Compiler integration using huff-neo-js npm package
 import { compile as wasmCompile, CompilerArtifact, SourceMapEntry } from 'huff-neo-js';
-
-// Internal source map entry with converted coordinates for BytecodeViewer
-export interface InternalSourceMapEntry {
-  byte_offset: number; // Converted to hex character offset (pc * 2)
-  length: number; // Converted to hex character length (bytecode_length * 2)
-  source_start: number;
-  source_end: number;
-  description?: string;
-}
-
-// Result interface for our app
-export interface CompileResult {
-  success: boolean;
-  bytecode?: string;
-  runtime?: string;
-  abi?: unknown;
-  constructor_map?: InternalSourceMapEntry[];
-  runtime_map?: InternalSourceMapEntry[];
-  errors?: string[];
-}
+import { parseDiagnostics } from './diagnostics';
+import { CompileResult, CompileSettings, defaultCompileSettings } from './types';
 
 export class HuffCompiler {
   private isReady = false;
@@ -34,23 +16,31 @@ export class HuffCompiler {
     }
   }
 
-  async compile(source: string, fileName: string = 'main.huff'): Promise<CompileResult> {
+  async compile(
+    entryPath: string,
+    files: Map<string, string>,
+    settings: CompileSettings = defaultCompileSettings
+  ): Promise<CompileResult> {
     if (!this.isReady) {
       await this.initialize();
     }
 
     try {
-      // Prepare input for the WASM compiler
-      const filesMap = new Map();
-      filesMap.set(fileName, source);
+      // Pass the whole workspace so #include directives resolve against the file tree.
+      // Includes may be resolved with or without a leading "./", so register both forms.
+      const filesMap = new Map<string, string>();
+      for (const [path, content] of files) {
+        filesMap.set(path, content);
+        filesMap.set(`./${path}`, content);
+      }
 
       const input = {
-        sources: [fileName],
+        sources: [entryPath],
         files: filesMap,
-        evm_version: 'cancun', // Use latest EVM version
-        construct_args: undefined,
-        alternative_main: undefined,
-        alternative_constructor: undefined,
+        evm_version: settings.evmVersion,
+        construct_args: settings.constructArgs.length > 0 ? settings.constructArgs : undefined,
+        alternative_main: settings.alternativeMain || undefined,
+        alternative_constructor: settings.alternativeConstructor || undefined,
       };
 
       // Call the WASM compiler - huff-neo-js expects an object
@@ -60,6 +50,8 @@ export class HuffCompiler {
         return {
           success: false,
           errors: result.errors,
+          diagnostics: parseDiagnostics(result.errors, files, entryPath),
+          settings,
         };
       }
 
@@ -71,32 +63,18 @@ export class HuffCompiler {
           contracts instanceof Map ? contracts : new Map(Object.entries(contracts));
 
         // Try to find the contract by different possible paths
-        const possibleKeys = [fileName, `./${fileName}`, fileName.replace('.huff', '')];
+        const fileName = entryPath.split('/').pop() || entryPath;
+        const possibleKeys = [
+          entryPath,
+          `./${entryPath}`,
+          entryPath.replace('.huff', ''),
+          fileName,
+          fileName.replace('.huff', ''),
+        ];
         for (const key of possibleKeys) {
           const contract = contractsMap.get(key);
           if (contract) {
-            // Convert new source map format to our internal format
-            const constructor_map = contract.constructor_map?.map((entry: SourceMapEntry) => ({
-              byte_offset: entry.pc * 2, // Convert byte offset to hex character offset
-              length: entry.bytecode_length * 2, // Convert byte length to hex character length
-              source_start: entry.source_start,
-              source_end: entry.source_start + entry.source_length,
-            }));
-            const runtime_map = contract.runtime_map?.map((entry: SourceMapEntry) => ({
-              byte_offset: entry.pc * 2, // Convert byte offset to hex character offset
-              length: entry.bytecode_length * 2, // Convert byte length to hex character length
-              source_start: entry.source_start,
-              source_end: entry.source_start + entry.source_length,
-            }));
-
-            return {
-              success: true,
-              bytecode: contract.bytecode || contract.runtime || '0x',
-              runtime: contract.runtime || contract.bytecode || '0x',
-              abi: contract.abi || undefined,
-              constructor_map,
-              runtime_map,
-            };
+            return this.toCompileResult(contract, settings);
           }
         }
 
@@ -105,28 +83,7 @@ export class HuffCompiler {
           const firstEntry = contractsMap.entries().next().value;
           if (firstEntry) {
             const [, contract] = firstEntry;
-            // Convert new source map format to our internal format
-            const constructor_map = contract.constructor_map?.map((entry: SourceMapEntry) => ({
-              byte_offset: entry.pc * 2, // Convert byte offset to hex character offset
-              length: entry.bytecode_length * 2, // Convert byte length to hex character length
-              source_start: entry.source_start,
-              source_end: entry.source_start + entry.source_length,
-            }));
-            const runtime_map = contract.runtime_map?.map((entry: SourceMapEntry) => ({
-              byte_offset: entry.pc * 2, // Convert byte offset to hex character offset
-              length: entry.bytecode_length * 2, // Convert byte length to hex character length
-              source_start: entry.source_start,
-              source_end: entry.source_start + entry.source_length,
-            }));
-
-            return {
-              success: true,
-              bytecode: contract.bytecode || contract.runtime || '0x',
-              runtime: contract.runtime || contract.bytecode || '0x',
-              abi: contract.abi || undefined,
-              constructor_map,
-              runtime_map,
-            };
+            return this.toCompileResult(contract, settings);
           }
         }
       }
@@ -135,16 +92,48 @@ export class HuffCompiler {
       return {
         success: false,
         errors: ['No bytecode generated - check your Huff code for syntax errors'],
+        settings,
       };
     } catch (error) {
       console.error('Compilation error:', error);
+      const errors = [
+        error instanceof Error ? error.message : String(error || 'Compilation failed'),
+      ];
       return {
         success: false,
-        errors: [error instanceof Error ? error.message : 'Compilation failed'],
+        errors,
+        diagnostics: parseDiagnostics(errors, files, entryPath),
+        settings,
       };
     }
   }
 
+  private toCompileResult(contract: CompilerArtifact, settings: CompileSettings): CompileResult {
+    // Convert new source map format to our internal format
+    const constructor_map = contract.constructor_map?.map((entry: SourceMapEntry) => ({
+      byte_offset: entry.pc * 2, // Convert byte offset to hex character offset
+      length: entry.bytecode_length * 2, // Convert byte length to hex character length
+      source_start: entry.source_start,
+      source_end: entry.source_start + entry.source_length,
+    }));
+    const runtime_map = contract.runtime_map?.map((entry: SourceMapEntry) => ({
+      byte_offset: entry.pc * 2, // Convert byte offset to hex character offset
+      length: entry.bytecode_length * 2, // Convert byte length to hex character length
+      source_start: entry.source_start,
+      source_end: entry.source_start + entry.source_length,
+    }));
+
+    return {
+      success: true,
+      bytecode: contract.bytecode || contract.runtime || '0x',
+      runtime: contract.runtime || contract.bytecode || '0x',
+      abi: contract.abi || undefined,
+      constructor_map,
+      runtime_map,
+      settings,
+    };
+  }
+
   formatBytecode(bytecode: string): string {
     // Remove 0x prefix if present
     let cleanBytecode = bytecode.startsWith('0x') ? bytecode.slice(2) : bytecode;
@@ -158,37 +147,6 @@ export class HuffCompiler {
 
     return cleanBytecode;
   }
-
-  analyzeBytecode(bytecode: string): {
-    size: number;
-    opcodes: number;
-    pushData: number;
-  } {
-    const cleanBytecode = bytecode.startsWith('0x') ? bytecode.slice(2) : bytecode;
-    const size = cleanBytecode.length / 2;
-
-    // Simple analysis - count opcodes vs push data
-    let opcodes = 0;
-    let pushData = 0;
-    let i = 0;
-
-    while (i < cleanBytecode.length) {
-      const opcode = cleanBytecode.substr(i, 2);
-      const opcodeValue = parseInt(opcode, 16);
-
-      opcodes++;
-      i += 2;
-
-      // Check for PUSH opcodes (0x60 to 0x7f)
-      if (opcodeValue >= 0x60 && opcodeValue <= 0x7f) {
-        const pushSize = (opcodeValue - 0x60 + 1) * 2;
-        pushData += pushSize / 2;
-        i += pushSize;
-      }
-    }
-
-    return { size, opcodes, pushData };
-  }
 }
 
 export const huffCompiler = new HuffCompiler();
@@ -0,0 +1,43 @@
+// Compiler types shared by the main thread and the compiler worker
+import { DEFAULT_EVM_VERSION, EvmVersion } from '../evm/opcodes';
+import { Diagnostic } from './diagnostics';
+
+// Internal source map entry with converted coordinates for BytecodeViewer
+export interface InternalSourceMapEntry {
+  byte_offset: number; // Converted to hex character offset (pc * 2)
+  length: number; // Converted to hex character length (bytecode_length * 2)
+  source_start: number;
+  source_end: number;
+  description?: string;
+}
+
+// User-selectable compiler options, saved per workspace
+export interface CompileSettings {
+  evmVersion: EvmVersion;
+  // Constructor arguments, appended to the creation bytecode
+  constructArgs: string[];
+  // Macros to compile in place of MAIN and CONSTRUCTOR, empty for the defaults
+  alternativeMain: string;
+  alternativeConstructor: string;
+}
+
+export const defaultCompileSettings: CompileSettings = {
+  evmVersion: DEFAULT_EVM_VERSION,
+  constructArgs: [],
+  alternativeMain: '',
+  alternativeConstructor: '',
+};
+
+// Result interface for our app
+export interface CompileResult {
+  success: boolean;
+  bytecode?: string;
+  runtime?: string;
+  abi?: unknown;
+  constructor_map?: InternalSourceMapEntry[];
+  runtime_map?: InternalSourceMapEntry[];
+  errors?: string[];
+  diagnostics?: Diagnostic[];
+  // Settings the result was compiled with
+  settings?: CompileSettings;
+}
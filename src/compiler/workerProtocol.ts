@@ -0,0 +1,16 @@
+// Messages exchanged with the compiler worker
+import { CompileResult, CompileSettings } from './types';
+
+export type CompilerRequest =
+  | {
+      type: 'compile';
+      // Generation ID, increasing with every compile request
+      id: number;
+      entryPath: string;
+      files: Map<string, string>;
+      settings: CompileSettings;
+    }
+  | { type: 'cancel'; id: number };
+
+export type CompilerResponse =
+  { type: 'result'; id: number; result: CompileResult } | { type: 'cancelled'; id: number };
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, Download } from 'lucide-react';
+import { AbiEntry, AbiParam, canonicalType, entryHash, entrySignature } from '../abi/abi';
+import {
+  AbiValue,
+  decodeReturnData,
+  decodeWithSelector,
+  encodeCalldata,
+  formatValue,
+  parseInput,
+} from '../abi/encoding';
+import { downloadFile } from '../utils/download';
+import './AbiPanel.css';
+
+interface AbiPanelProps {
+  abi: AbiEntry[];
+  // Whether the ABI came from the compiler or was derived from the #define declarations
+  fromSource: boolean;
+  contractName: string;
+}
+
+type DecodeMode = 'calldata' | 'return' | 'revert';
+
+interface DecodeResult {
+  title: string;
+  params: AbiParam[];
+  values: AbiValue[];
+}
+
+function paramLabel(param: AbiParam, index: number): string {
+  return param.name || `arg${index}`;
+}
+
+export const AbiPanel: React.FC<AbiPanelProps> = ({ abi, fromSource, contractName }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [inputs, setInputs] = useState<string[]>([]);
+  const [calldata, setCalldata] = useState<string | null>(null);
+  const [encodeError, setEncodeError] = useState<string | null>(null);
+  const [decodeMode, setDecodeMode] = useState<DecodeMode>('calldata');
+  const [decodeInput, setDecodeInput] = useState('');
+  const [decoded, setDecoded] = useState<DecodeResult | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+
+  const rows = useMemo(
+    () =>
+      abi.map(entry => ({
+        entry,
+        signature: entrySignature(entry),
+        hash: entryHash(entry),
+      })),
+    [abi]
+  );
+
+  const selectedEntry = rows.find(row => row.signature === selected)?.entry || null;
+
+  // Drop the selection when the entry disappears after a recompile
+  useEffect(() => {
+    if (selected && !rows.some(row => row.signature === selected)) {
+      setSelected(null);
+    }
+  }, [rows, selected]);
+
+  const handleSelect = (signature: string) => {
+    const entry = rows.find(row => row.signature === signature)?.entry;
+    setSelected(signature);
+    setInputs(entry ? entry.inputs.map(() => '') : []);
+    setCalldata(null);
+    setEncodeError(null);
+  };
+
+  const handleEncode = () => {
+    if (!selectedEntry) return;
+    try {
+      const values = selectedEntry.inputs.map((param, i) => parseInput(param, inputs[i] || ''));
+      setCalldata(encodeCalldata(selectedEntry, values));
+      setEncodeError(null);
+    } catch (error) {
+      setCalldata(null);
+      setEncodeError((error as Error).message);
+    }
+  };
+
+  const handleDecode = () => {
+    try {
+      if (decodeMode === 'return') {
+        if (!selectedEntry || selectedEntry.type !== 'function') {
+          throw new Error('Select a function to decode its return data');
+        }
+        setDecoded({
+          title: `${selectedEntry.name} returns`,
+          params: selectedEntry.outputs || [],
+          values: decodeReturnData(selectedEntry, decodeInput),
+        });
+      } else {
+        const entries = abi.filter(entry =>
+          decodeMode === 'calldata' ? entry.type === 'function' : entry.type === 'error'
+        );
+        const { entry, values } = decodeWithSelector(entries, decodeInput);
+        setDecoded({ title: entrySignature(entry), params: entry.inputs, values });
+      }
+      setDecodeError(null);
+    } catch (error) {
+      setDecoded(null);
+      setDecodeError((error as Error).message);
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(JSON.stringify(abi, null, 2), `${contractName}.abi.json`, 'application/json');
+  };
+
+  if (abi.length === 0) {
+    return (
+      <div className="abi-panel">
+        <div className="abi-empty">No functions, events or errors are declared</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="abi-panel">
+      <div className="abi-toolbar">
+        <span>
+          {abi.length} entries{fromSource ? ' (from declarations)' : ''}
+        </span>
+        <button className="abi-button" onClick={handleExport} title="Download ABI as JSON">
+          <Download size={14} />
+          <span>Export JSON</span>
+        </button>
+      </div>
+
+      <table className="abi-table">
+        <thead>
+          <tr>
+            <th>Type</th>
+            <th>Signature</th>
+            <th>Selector / Topic</th>
+            <th>Mutability</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ entry, signature, hash }) => {
+            const encodable = entry.type === 'function' || entry.type === 'constructor';
+            return (
+              <tr
+                key={`${entry.type}-${signature}`}
+                className={`${encodable ? 'selectable' : ''} ${selected === signature ? 'selected' : ''}`}
+                onClick={() => encodable && handleSelect(signature)}
+              >
+                <td className={`abi-kind abi-kind-${entry.type}`}>{entry.type}</td>
+                <td className="abi-signature">
+                  {signature}
+                  {entry.outputs && entry.outputs.length > 0 && (
+                    <span className="abi-outputs">
+                      {' '}
+                      → ({entry.outputs.map(canonicalType).join(',')})
+                    </span>
+                  )}
+                </td>
+                <td className="abi-hash" title={hash || undefined}>
+                  {hash}
+                </td>
+                <td>{entry.stateMutability || ''}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="abi-section">
+        <h4>Encode calldata</h4>
+        {selectedEntry ? (
+          <>
+            <div className="abi-section-title">{entrySignature(selectedEntry)}</div>
+            {selectedEntry.inputs.map((param, i) => (
+              <label key={i} className="abi-input">
+                <span>
+                  {paramLabel(param, i)} <em>{canonicalType(param)}</em>
+                </span>
+                <input
+                  type="text"
+                  value={inputs[i] || ''}
+                  onChange={e =>
+                    setInputs(prev => prev.map((value, j) => (j === i ? e.target.value : value)))
+                  }
+                  onKeyDown={e => e.key === 'Enter' && handleEncode()}
+                  placeholder={
+                    param.type.endsWith(']') || param.type.startsWith('tuple')
+                      ? 'JSON array, e.g. ["1", "2"]'
+                      : canonicalType(param)
+                  }
+                  spellCheck={false}
+                />
+              </label>
+            ))}
+            <button className="abi-button primary" onClick={handleEncode}>
+              Encode
+            </button>
+            {encodeError && <div className="abi-error">{encodeError}</div>}
+            {calldata && (
+              <div className="abi-result">
+                <code>{calldata}</code>
+                <button
+                  className="abi-button"
+                  onClick={() => window.navigator.clipboard.writeText(calldata)}
+                  title="Copy calldata"
+                >
+                  <Copy size={14} />
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="abi-hint">Select a function in the table to build calldata</div>
+        )}
+      </div>
+
+      <div className="abi-section">
+        <h4>Decode</h4>
+        <div className="abi-decode-modes">
+          {(['calldata', 'return', 'revert'] as DecodeMode[]).map(mode => (
+            <button
+              key={mode}
+              className={`abi-mode ${decodeMode === mode ? 'active' : ''}`}
+              onClick={() => setDecodeMode(mode)}
+            >
+              {mode === 'calldata' ? 'Calldata' : mode === 'return' ? 'Return data' : 'Revert data'}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={decodeInput}
+          onChange={e => setDecodeInput(e.target.value)}
+          placeholder={
+            decodeMode === 'return'
+              ? `0x... return data of ${selectedEntry?.name || 'the selected function'}`
+              : '0x...'
+          }
+          spellCheck={false}
+        />
+        <button className="abi-button primary" onClick={handleDecode}>
+          Decode
+        </button>
+        {decodeError && <div className="abi-error">{decodeError}</div>}
+        {decoded && (
+          <div className="abi-decoded">
+            <div className="abi-section-title">{decoded.title}</div>
+            {decoded.params.map((param, i) => (
+              <div key={i} className="abi-decoded-row">
+                <span>
+                  {paramLabel(param, i)} <em>{canonicalType(param)}</em>
+                </span>
+                <code>{formatValue(decoded.values[i])}</code>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { AbiEntry } from '../abi/abi';
+import {
+  ArtifactFormat,
+  buildArtifact,
+  creationBytecode,
+  solcSourceMap,
+} from '../compiler/artifacts';
+import { CompileResult } from '../compiler/types';
+import { downloadFile } from '../utils/download';
+import './ArtifactExportMenu.css';
+
+interface ArtifactExportMenuProps {
+  compileResult: CompileResult;
+  abi: AbiEntry[];
+  // Path and content of the compiled file
+  sourceName: string;
+  source: string;
+  contractName: string;
+}
+
+export const ArtifactExportMenu: React.FC<ArtifactExportMenuProps> = ({
+  compileResult,
+  abi,
+  sourceName,
+  source,
+  contractName,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const exportArtifact = (format: ArtifactFormat) => {
+    const artifact = buildArtifact(format, compileResult, {
+      sourceName,
+      source,
+      contractName,
+      abi,
+    });
+    downloadFile(JSON.stringify(artifact, null, 2), `${contractName}.json`, 'application/json');
+    setIsOpen(false);
+  };
+
+  const exportSourceMap = (runtime: boolean) => {
+    const sourceMap = runtime
+      ? solcSourceMap(
+          compileResult.runtime || '',
+          compileResult.runtime_map,
+          source,
+          compileResult.settings?.evmVersion
+        )
+      : solcSourceMap(
+          creationBytecode(compileResult),
+          compileResult.constructor_map,
+          source,
+          compileResult.settings?.evmVersion
+        );
+    const suffix = runtime ? 'runtime' : 'creation';
+    downloadFile(sourceMap, `${contractName}.${suffix}.srcmap`, 'text/plain');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="artifact-export" ref={menuRef}>
+      <button
+        className={`output-action ${isOpen ? 'active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Download compilation output"
+      >
+        <FileDown size={14} />
+      </button>
+      {isOpen && (
+        <div className="artifact-export-menu">
+          <button onClick={() => exportArtifact('foundry')}>
+            <span>Foundry artifact</span>
+            <span className="artifact-export-hint">out/{contractName}.json</span>
+          </button>
+          <button onClick={() => exportArtifact('hardhat')}>
+            <span>Hardhat artifact</span>
+            <span className="artifact-export-hint">hh-sol-artifact-1</span>
+          </button>
+          <button onClick={() => exportSourceMap(true)}>
+            <span>Runtime source map</span>
+            <span className="artifact-export-hint">solc s:l:f:j:m</span>
+          </button>
+          <button onClick={() => exportSourceMap(false)}>
+            <span>Creation source map</span>
+            <span className="artifact-export-hint">solc s:l:f:j:m</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
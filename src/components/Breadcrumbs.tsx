@@ -0,0 +1,50 @@
+import React from 'react';
+import { ChevronRight, FileText } from 'lucide-react';
+import { OutlineItem } from '../language/outline';
+import { SYMBOL_ICONS } from './OutlinePanel';
+import './Breadcrumbs.css';
+
+interface BreadcrumbsProps {
+  // Workspace path of the open file
+  path: string;
+  // Definition and label at the cursor, outermost first
+  symbols: OutlineItem[];
+  onSelect: (offset: number) => void;
+}
+
+export const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ path, symbols, onSelect }) => {
+  const segments = path.split('/');
+  const folders = segments.slice(0, -1);
+  const fileName = segments[segments.length - 1];
+
+  return (
+    <div className="breadcrumbs">
+      {folders.map((folder, i) => (
+        <React.Fragment key={`folder-${i}`}>
+          <span className="breadcrumb folder">{folder}</span>
+          <ChevronRight size={12} className="breadcrumb-separator" />
+        </React.Fragment>
+      ))}
+      <span className="breadcrumb file">
+        <FileText size={14} />
+        {fileName}
+      </span>
+      {symbols.map(item => {
+        const Icon = SYMBOL_ICONS[item.symbol.kind];
+        return (
+          <React.Fragment key={`${item.symbol.kind}:${item.symbol.nameStart}`}>
+            <ChevronRight size={12} className="breadcrumb-separator" />
+            <button
+              className="breadcrumb symbol"
+              title={`${item.symbol.name} ${item.symbol.detail}`.trim()}
+              onClick={() => onSelect(item.symbol.nameStart)}
+            >
+              <Icon size={13} className={`outline-icon-${item.symbol.kind}`} />
+              {item.symbol.name}
+            </button>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
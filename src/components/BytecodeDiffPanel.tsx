@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { Pin, PinOff } from 'lucide-react';
+import { CompileHistoryEntry, MAX_HISTORY } from '../compiler/history';
+import { DiffRow, DiffRowKind, diffBytecode } from '../evm/bytecodeDiff';
+import { Instruction } from '../evm/disassembler';
+import { hexByteLength } from '../evm/sizeLimits';
+import './BytecodeDiffPanel.css';
+
+interface BytecodeDiffPanelProps {
+  // Compilations of the open file, oldest first
+  history: CompileHistoryEntry[];
+  // Compare runtime code instead of the creation bytecode
+  runtime: boolean;
+  onPin: (id: number | null) => void;
+}
+
+// Unchanged instructions shown around each change when unchanged code is hidden
+const CONTEXT_ROWS = 3;
+
+const DIFF_SIGNS: Record<DiffRowKind, string> = {
+  equal: '',
+  removed: '−',
+  added: '+',
+  changed: '~',
+};
+
+type DisplayRow = { row: DiffRow } | { hidden: number };
+
+function entryLabel(entry: CompileHistoryEntry, runtime: boolean): string {
+  const time = new Date(entry.compiledAt).toLocaleTimeString();
+  const bytes = hexByteLength(runtime ? entry.result.runtime : entry.result.bytecode);
+  return `#${entry.id} · ${time} · ${bytes} bytes${entry.pinned ? ' · baseline' : ''}`;
+}
+
+function formatDelta(before: number, after: number): string {
+  const delta = after - before;
+  return delta === 0 ? '±0' : delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+function deltaClass(before: number, after: number): string {
+  return after < before ? 'better' : after > before ? 'worse' : '';
+}
+
+function formatInstruction(instruction: Instruction): string {
+  return instruction.immediate !== undefined
+    ? `${instruction.mnemonic} 0x${instruction.immediate}`
+    : instruction.mnemonic;
+}
+
+function formatPc(instruction?: Instruction): string {
+  return instruction ? instruction.pc.toString(16).padStart(4, '0') : '';
+}
+
+// Collapse runs of unchanged rows that are further than CONTEXT_ROWS from a change
+function collapseUnchanged(rows: DiffRow[]): DisplayRow[] {
+  const near = new Array(rows.length).fill(false);
+  rows.forEach((row, i) => {
+    if (row.kind === 'equal') return;
+    const end = Math.min(rows.length - 1, i + CONTEXT_ROWS);
+    for (let j = Math.max(0, i - CONTEXT_ROWS); j <= end; j++) near[j] = true;
+  });
+
+  const result: DisplayRow[] = [];
+  let hidden = 0;
+  rows.forEach((row, i) => {
+    if (near[i]) {
+      if (hidden > 0) result.push({ hidden });
+      hidden = 0;
+      result.push({ row });
+    } else {
+      hidden++;
+    }
+  });
+  if (hidden > 0) result.push({ hidden });
+  return result;
+}
+
+export const BytecodeDiffPanel: React.FC<BytecodeDiffPanelProps> = ({
+  history,
+  runtime,
+  onPin,
+}) => {
+  // null follows the default: the pinned baseline or the previous compilation, against the latest
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [targetId, setTargetId] = useState<number | null>(null);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const latest = history[history.length - 1];
+  const target = history.find(entry => entry.id === targetId) || latest;
+  const base =
+    history.find(entry => entry.id === baseId) ||
+    history.find(entry => entry.pinned && entry !== target) ||
+    history[history.indexOf(target) - 1];
+
+  const diff = useMemo(() => {
+    if (!base || !target) return null;
+    const side = (entry: CompileHistoryEntry) => ({
+      bytecode: (runtime ? entry.result.runtime : entry.result.bytecode) || '',
+      evmVersion: entry.result.settings?.evmVersion,
+    });
+    return diffBytecode(side(base), side(target));
+  }, [base, target, runtime]);
+
+  const rows = useMemo<DisplayRow[]>(() => {
+    if (!diff) return [];
+    return changesOnly ? collapseUnchanged(diff.rows) : diff.rows.map(row => ({ row }));
+  }, [diff, changesOnly]);
+
+  if (history.length < 2) {
+    return (
+      <div className="diff-empty">
+        Compile again after a change to compare the output. The last {MAX_HISTORY} successful
+        compilations of each file are kept until the page is reloaded.
+      </div>
+    );
+  }
+
+  const selector = (
+    label: string,
+    selected: CompileHistoryEntry | undefined,
+    onChange: (id: number) => void
+  ) => (
+    <label>
+      <span>{label}</span>
+      <select value={selected?.id ?? ''} onChange={e => onChange(Number(e.target.value))}>
+        {[...history].reverse().map(entry => (
+          <option key={entry.id} value={entry.id}>
+            {entryLabel(entry, runtime)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="diff-panel">
+      <div className="diff-controls">
+        {selector('Base', base, setBaseId)}
+        {base && (
+          <button
+            className={`diff-pin ${base.pinned ? 'active' : ''}`}
+            onClick={() => onPin(base.pinned ? null : base.id)}
+            title={base.pinned ? 'Unpin the baseline' : 'Pin as the baseline'}
+          >
+            {base.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+          </button>
+        )}
+        {selector('Compare', target, setTargetId)}
+        <label className="diff-changes-only">
+          <input
+            type="checkbox"
+            checked={changesOnly}
+            onChange={e => setChangesOnly(e.target.checked)}
+          />
+          Changes only
+        </label>
+      </div>
+
+      {diff && (
+        <>
+          <div className="diff-summary">
+            <span>
+              Size: {diff.before.bytes} → {diff.after.bytes} bytes{' '}
+              <b className={deltaClass(diff.before.bytes, diff.after.bytes)}>
+                ({formatDelta(diff.before.bytes, diff.after.bytes)})
+              </b>
+            </span>
+            <span>•</span>
+            <span title="Sum of base gas, without dynamic costs">
+              Static gas: {diff.before.gas} → {diff.after.gas}{' '}
+              <b className={deltaClass(diff.before.gas, diff.after.gas)}>
+                ({formatDelta(diff.before.gas, diff.after.gas)})
+              </b>
+            </span>
+            <span>•</span>
+            <span>
+              Instructions: {diff.before.instructions} → {diff.after.instructions}
+            </span>
+            <span>•</span>
+            <span className="diff-counts">
+              <span className="added">+{diff.added}</span>
+              <span className="removed">−{diff.removed}</span>
+              <span className="changed">~{diff.changed}</span>
+            </span>
+          </div>
+
+          {diff.added + diff.removed + diff.changed === 0 ? (
+            <div className="diff-empty">The instructions are identical</div>
+          ) : (
+            <div className="diff-rows">
+              {rows.map((item, i) =>
+                'hidden' in item ? (
+                  <div key={i} className="diff-row diff-hidden">
+                    … {item.hidden} unchanged instructions
+                  </div>
+                ) : (
+                  <div key={i} className={`diff-row ${item.row.kind}`}>
+                    <span className="diff-pc">{formatPc(item.row.before)}</span>
+                    <span className="diff-pc">{formatPc(item.row.after)}</span>
+                    <span className="diff-sign">{DIFF_SIGNS[item.row.kind]}</span>
+                    <span className="diff-instruction">
+                      {item.row.kind === 'changed'
+                        ? `${formatInstruction(item.row.before!)} → 0x${item.row.after!.immediate}`
+                        : formatInstruction((item.row.after || item.row.before)!)}
+                    </span>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,37 @@
-import React, { useState, useMemo } from 'react';
-import { InternalSourceMapEntry } from '../compiler/huffCompiler';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { InternalSourceMapEntry } from '../compiler/types';
+import { disassemble, Instruction } from '../evm/disassembler';
+import { DEFAULT_EVM_VERSION, EvmVersion } from '../evm/opcodes';
 import './BytecodeViewer.css';
 
 interface BytecodeViewerProps {
   bytecode: string;
   sourceMap?: InternalSourceMapEntry[];
   source: string;
+  evmVersion?: EvmVersion;
   onHover?: (sourceStart: number | null, sourceEnd: number | null) => void;
+  // Cursor or selection in the source, as character offsets
+  selection?: SourceSelection | null;
+}
+
+export interface SourceSelection {
+  start: number;
+  end: number;
+}
+
+type ViewMode = 'hex' | 'disassembly';
+
+// Whether a mapped source range overlaps the selection, or contains the cursor
+function overlapsSelection(
+  sourceStart: number | undefined,
+  sourceEnd: number | undefined,
+  selection: SourceSelection | null | undefined
+): boolean {
+  if (!selection || sourceStart === undefined || sourceEnd === undefined) return false;
+  if (selection.start === selection.end) {
+    return sourceStart <= selection.start && selection.start <= sourceEnd;
+  }
+  return sourceStart < selection.end && sourceEnd > selection.start;
 }
 
 interface BytecodeSegment {
@@ -21,9 +46,14 @@ export const BytecodeViewer: React.FC<BytecodeViewerProps> = ({
   bytecode,
   sourceMap,
   source,
+  evmVersion = DEFAULT_EVM_VERSION,
   onHover,
+  selection,
 }) => {
   const [hoveredSegment, setHoveredSegment] = useState<BytecodeSegment | null>(null);
+  const [mode, setMode] = useState<ViewMode>('hex');
+  const [hoveredPc, setHoveredPc] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
 
   // Parse bytecode into segments based on source map
   const segments = useMemo(() => {
@@ -76,6 +106,60 @@ export const BytecodeViewer: React.FC<BytecodeViewerProps> = ({
     return result;
   }, [bytecode, sourceMap]);
 
+  // Disassembled instructions, each paired with the source map entry covering it
+  const instructions = useMemo(() => {
+    if (mode !== 'disassembly') return [];
+
+    const sortedMap = [...(sourceMap || [])].sort((a, b) => a.byte_offset - b.byte_offset);
+    const result: { instruction: Instruction; entry?: InternalSourceMapEntry }[] = [];
+    let entryIndex = 0;
+    for (const instruction of disassemble(bytecode, evmVersion)) {
+      const offset = instruction.pc * 2; // Source map offsets are in hex characters
+      while (
+        entryIndex < sortedMap.length &&
+        sortedMap[entryIndex].byte_offset + sortedMap[entryIndex].length <= offset
+      ) {
+        entryIndex++;
+      }
+      const entry = sortedMap[entryIndex];
+      result.push({
+        instruction,
+        entry: entry && entry.byte_offset <= offset ? entry : undefined,
+      });
+    }
+    return result;
+  }, [bytecode, sourceMap, evmVersion, mode]);
+
+  // Bytecode generated from the selected source, at every place a macro was expanded
+  const linkedCount = useMemo(
+    () =>
+      mode === 'disassembly'
+        ? instructions.filter(({ entry }) =>
+            overlapsSelection(entry?.source_start, entry?.source_end, selection)
+          ).length
+        : segments.filter(segment =>
+            overlapsSelection(segment.sourceStart, segment.sourceEnd, selection)
+          ).length,
+    [mode, instructions, segments, selection]
+  );
+
+  // Scroll the first linked segment into view when the selection moves
+  useEffect(() => {
+    if (linkedCount === 0) return;
+    containerRef.current?.querySelector('.linked')?.scrollIntoView({ block: 'nearest' });
+  }, [selection, linkedCount, mode]);
+
+  const handleInstructionHover = (pc: number | null, entry?: InternalSourceMapEntry) => {
+    setHoveredPc(pc);
+    if (onHover) {
+      if (entry) {
+        onHover(entry.source_start, entry.source_end);
+      } else {
+        onHover(null, null);
+      }
+    }
+  };
+
   const handleSegmentHover = (segment: BytecodeSegment | null) => {
     setHoveredSegment(segment);
     if (onHover) {
@@ -133,30 +217,96 @@ export const BytecodeViewer: React.FC<BytecodeViewerProps> = ({
     return result;
   };
 
-  return (
-    <div className="bytecode-viewer">
-      <div className="bytecode-segments">
-        {segments.map((segment, index) => (
+  const renderDisassembly = () => (
+    <div className="disassembly">
+      <div className="disassembly-row disassembly-header">
+        <span className="disassembly-pc">PC</span>
+        <span className="disassembly-mnemonic">Opcode</span>
+        <span className="disassembly-immediate">Immediate</span>
+        <span className="disassembly-stack">Stack in → out</span>
+      </div>
+      {instructions.map(({ instruction, entry }) => (
+        <div
+          key={instruction.pc}
+          className={`disassembly-row ${entry ? 'mapped' : 'unmapped'} ${
+            hoveredPc === instruction.pc ? 'hovered' : ''
+          } ${overlapsSelection(entry?.source_start, entry?.source_end, selection) ? 'linked' : ''}`}
+          onMouseEnter={() => handleInstructionHover(instruction.pc, entry)}
+          onMouseLeave={() => handleInstructionHover(null)}
+          title={
+            entry ? source.substring(entry.source_start, entry.source_end) : 'No source mapping'
+          }
+        >
+          <span className="disassembly-pc">{instruction.pc.toString(16).padStart(4, '0')}</span>
           <span
-            key={index}
-            className={`bytecode-segment ${segment.sourceStart !== undefined ? 'mapped' : 'unmapped'} ${
-              hoveredSegment === segment ? 'hovered' : ''
-            }`}
-            onMouseEnter={() => handleSegmentHover(segment)}
-            onMouseLeave={() => handleSegmentHover(null)}
-            title={
-              segment.description ||
-              (segment.sourceStart !== undefined
-                ? `Source: ${segment.sourceStart}-${segment.sourceEnd}`
-                : 'No source mapping')
-            }
+            className={`disassembly-mnemonic ${
+              instruction.immediate !== undefined ? 'opcode-push' : 'opcode'
+            } ${instruction.info ? '' : 'unknown'}`}
           >
-            {parseOpcodes(segment.bytes)}
+            {instruction.mnemonic}
+          </span>
+          <span className="disassembly-immediate">
+            {instruction.immediate !== undefined && (
+              <span className="opcode-push-data">
+                0x{instruction.immediate}
+                {instruction.truncated && ' (truncated)'}
+              </span>
+            )}
+          </span>
+          <span className="disassembly-stack">
+            {instruction.info &&
+              `[${instruction.info.stackIn.join(', ')}] → [${instruction.info.stackOut.join(', ')}]`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bytecode-viewer" ref={containerRef}>
+      <div className="viewer-modes">
+        <button className={mode === 'hex' ? 'active' : ''} onClick={() => setMode('hex')}>
+          Hex
+        </button>
+        <button
+          className={mode === 'disassembly' ? 'active' : ''}
+          onClick={() => setMode('disassembly')}
+        >
+          Disassembly
+        </button>
+        {linkedCount > 0 && (
+          <span className="linked-count" title="Bytecode generated from the source at the cursor">
+            {linkedCount} {linkedCount === 1 ? 'match' : 'matches'} for the selection
           </span>
-        ))}
+        )}
       </div>
 
-      {hoveredSegment && hoveredSegment.sourceStart !== undefined && (
+      {mode === 'disassembly' ? (
+        renderDisassembly()
+      ) : (
+        <div className="bytecode-segments">
+          {segments.map((segment, index) => (
+            <span
+              key={index}
+              className={`bytecode-segment ${segment.sourceStart !== undefined ? 'mapped' : 'unmapped'} ${
+                hoveredSegment === segment ? 'hovered' : ''
+              } ${overlapsSelection(segment.sourceStart, segment.sourceEnd, selection) ? 'linked' : ''}`}
+              onMouseEnter={() => handleSegmentHover(segment)}
+              onMouseLeave={() => handleSegmentHover(null)}
+              title={
+                segment.description ||
+                (segment.sourceStart !== undefined
+                  ? `Source: ${segment.sourceStart}-${segment.sourceEnd}`
+                  : 'No source mapping')
+              }
+            >
+              {parseOpcodes(segment.bytes)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {mode === 'hex' && hoveredSegment && hoveredSegment.sourceStart !== undefined && (
         <div className="hover-info">
           <div className="hover-info-header">Bytecode Segment</div>
           <div className="hover-info-content">
@@ -0,0 +1,242 @@
+import React, { useMemo, useState } from 'react';
+import { InternalSourceMapEntry } from '../compiler/types';
+import { BasicBlock, CfgEdge, blockSources, buildCfg } from '../evm/cfg';
+import { EvmVersion } from '../evm/opcodes';
+import { parseHuffFile } from '../language/symbols';
+import './CfgPanel.css';
+
+interface CfgPanelProps {
+  // Runtime bytecode and its source map
+  bytecode: string;
+  sourceMap?: InternalSourceMapEntry[];
+  // Path and source of the compiled file
+  path: string;
+  source: string;
+  evmVersion?: EvmVersion;
+  onSelect: (sourceStart: number | null, sourceEnd: number | null) => void;
+}
+
+// Layout of the linear graph: blocks stacked in bytecode order, jumps routed in lanes on the right
+const BLOCK_WIDTH = 260;
+const HEADER_HEIGHT = 20;
+const LINE_HEIGHT = 15;
+const BLOCK_GAP = 18;
+const LANE_WIDTH = 10;
+// Instructions shown per block before it is collapsed
+const MAX_LINES = 8;
+
+interface BlockLayout {
+  block: BasicBlock;
+  y: number;
+  height: number;
+  lines: string[];
+  hidden: number;
+}
+
+interface EdgeLayout {
+  edge: CfgEdge;
+  lane: number;
+  fromY: number;
+  toY: number;
+}
+
+function instructionText(block: BasicBlock, index: number): string {
+  const instruction = block.instructions[index];
+  const pc = instruction.pc.toString(16).padStart(4, '0');
+  return instruction.immediate !== undefined
+    ? `${pc}  ${instruction.mnemonic} 0x${instruction.immediate}`
+    : `${pc}  ${instruction.mnemonic}`;
+}
+
+// Assign each jump the lowest lane not used by an overlapping jump, shortest jumps innermost
+function assignLanes(edges: { edge: CfgEdge; fromY: number; toY: number }[]): EdgeLayout[] {
+  const sorted = [...edges].sort((a, b) => Math.abs(a.toY - a.fromY) - Math.abs(b.toY - b.fromY));
+  const lanes: [number, number][][] = [];
+  return sorted.map(item => {
+    const low = Math.min(item.fromY, item.toY);
+    const high = Math.max(item.fromY, item.toY);
+    let lane = lanes.findIndex(spans => spans.every(([a, b]) => high < a || low > b));
+    if (lane < 0) {
+      lane = lanes.length;
+      lanes.push([]);
+    }
+    lanes[lane].push([low, high]);
+    return { ...item, lane };
+  });
+}
+
+export const CfgPanel: React.FC<CfgPanelProps> = ({
+  bytecode,
+  sourceMap,
+  path,
+  source,
+  evmVersion,
+  onSelect,
+}) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const cfg = useMemo(() => buildCfg(bytecode, evmVersion), [bytecode, evmVersion]);
+  const sources = useMemo(
+    () => blockSources(cfg, sourceMap || [], parseHuffFile(path, source)),
+    [cfg, sourceMap, path, source]
+  );
+
+  const layout = useMemo(() => {
+    const blocks: BlockLayout[] = [];
+    let y = 0;
+    for (const block of cfg.blocks) {
+      const count = block.instructions.length;
+      const shown = count > MAX_LINES ? MAX_LINES - 1 : count;
+      const lines = Array.from({ length: shown }, (_, i) => instructionText(block, i));
+      const hidden = count - shown;
+      const height = HEADER_HEIGHT + (lines.length + (hidden > 0 ? 1 : 0)) * LINE_HEIGHT + 6;
+      blocks.push({ block, y, height, lines, hidden });
+      y += height + BLOCK_GAP;
+    }
+
+    const byStart = new Map(blocks.map(item => [item.block.start, item]));
+    const jumps = cfg.edges
+      .filter(edge => edge.kind !== 'fallthrough')
+      .map(edge => {
+        const from = byStart.get(edge.from)!;
+        const to = byStart.get(edge.to)!;
+        return { edge, fromY: from.y + from.height - 8, toY: to.y + HEADER_HEIGHT / 2 };
+      });
+    const fallthroughs = cfg.edges.filter(edge => edge.kind === 'fallthrough');
+    const edges = assignLanes(jumps);
+    const laneCount = Math.max(0, ...edges.map(edge => edge.lane + 1));
+    return {
+      blocks,
+      byStart,
+      edges,
+      fallthroughs,
+      width: BLOCK_WIDTH + 16 + laneCount * LANE_WIDTH,
+      height: Math.max(y - BLOCK_GAP, 0),
+    };
+  }, [cfg]);
+
+  const handleSelect = (block: BasicBlock) => {
+    const info = sources.get(block.start);
+    setSelected(block.start);
+    onSelect(info?.sourceStart ?? null, info?.sourceEnd ?? null);
+  };
+
+  if (cfg.blocks.length === 0) {
+    return <div className="cfg-empty">No runtime bytecode</div>;
+  }
+
+  const dynamicJumps = cfg.blocks.filter(block => block.dynamicJump).length;
+
+  return (
+    <div className="cfg-panel">
+      <div className="cfg-summary">
+        <span>{cfg.blocks.length} blocks</span>
+        <span>•</span>
+        <span>{cfg.edges.filter(edge => edge.kind !== 'fallthrough').length} static jumps</span>
+        {dynamicJumps > 0 && (
+          <>
+            <span>•</span>
+            <span title="Jumps whose target is not pushed right before them">
+              {dynamicJumps} dynamic
+            </span>
+          </>
+        )}
+        <span className="cfg-legend">
+          <span className="cfg-legend-jump">jump</span>
+          <span className="cfg-legend-branch">jumpi taken</span>
+          <span className="cfg-legend-fallthrough">fallthrough</span>
+        </span>
+      </div>
+
+      <svg className="cfg-graph" width={layout.width} height={layout.height}>
+        <defs>
+          {(['jump', 'branch', 'fallthrough'] as const).map(kind => (
+            <marker
+              key={kind}
+              id={`cfg-arrow-${kind}`}
+              viewBox="0 0 6 6"
+              refX="5"
+              refY="3"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto"
+            >
+              <path d="M0,0 L6,3 L0,6 z" className={`cfg-arrow-${kind}`} />
+            </marker>
+          ))}
+        </defs>
+
+        {layout.fallthroughs.map(edge => {
+          const from = layout.byStart.get(edge.from)!;
+          const to = layout.byStart.get(edge.to)!;
+          const x = BLOCK_WIDTH / 2;
+          return (
+            <line
+              key={`f-${edge.from}`}
+              className="cfg-edge fallthrough"
+              x1={x}
+              y1={from.y + from.height}
+              x2={x}
+              y2={to.y - 1}
+              markerEnd="url(#cfg-arrow-fallthrough)"
+            />
+          );
+        })}
+
+        {layout.edges.map(({ edge, lane, fromY, toY }) => {
+          const x = BLOCK_WIDTH + 8 + lane * LANE_WIDTH;
+          return (
+            <path
+              key={`j-${edge.from}-${edge.to}`}
+              className={`cfg-edge ${edge.kind} ${
+                selected === edge.from || selected === edge.to ? 'active' : ''
+              }`}
+              d={`M${BLOCK_WIDTH},${fromY} H${x} V${toY} H${BLOCK_WIDTH + 1}`}
+              markerEnd={`url(#cfg-arrow-${edge.kind})`}
+            />
+          );
+        })}
+
+        {layout.blocks.map(({ block, y, height, lines, hidden }) => {
+          const info = sources.get(block.start);
+          return (
+            <g
+              key={block.start}
+              className={`cfg-block ${selected === block.start ? 'selected' : ''} ${
+                block.unreachable ? 'unreachable' : ''
+              }`}
+              transform={`translate(0, ${y})`}
+              onClick={() => handleSelect(block)}
+            >
+              <title>
+                {info?.sourceStart !== undefined
+                  ? source.substring(info.sourceStart, info.sourceEnd)
+                  : 'No source mapping'}
+              </title>
+              <rect width={BLOCK_WIDTH} height={height} rx={3} />
+              <text x={6} y={14} className="cfg-block-title">
+                {info?.label ? `${info.label}:` : `block 0x${block.start.toString(16)}`}
+                {block.dynamicJump ? '  (dynamic jump)' : ''}
+                {block.unreachable ? '  (unreachable)' : ''}
+              </text>
+              {lines.map((line, i) => (
+                <text key={i} x={6} y={HEADER_HEIGHT + 11 + i * LINE_HEIGHT}>
+                  {line}
+                </text>
+              ))}
+              {hidden > 0 && (
+                <text
+                  x={6}
+                  y={HEADER_HEIGHT + 11 + lines.length * LINE_HEIGHT}
+                  className="cfg-more"
+                >
+                  … {hidden} more
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
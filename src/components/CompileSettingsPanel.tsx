@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { CompileSettings, defaultCompileSettings } from '../compiler/types';
+import { EVM_VERSIONS, EvmVersion } from '../evm/opcodes';
+import './CompileSettingsPanel.css';
+
+interface CompileSettingsPanelProps {
+  settings: CompileSettings;
+  // Macro names offered for the alternative MAIN and CONSTRUCTOR
+  macros: string[];
+  onChange: (settings: CompileSettings) => void;
+}
+
+// Constructor arguments are entered comma-separated
+function parseConstructArgs(text: string): string[] {
+  return text
+    .split(',')
+    .map(arg => arg.trim())
+    .filter(arg => arg.length > 0);
+}
+
+export const CompileSettingsPanel: React.FC<CompileSettingsPanelProps> = ({
+  settings,
+  macros,
+  onChange,
+}) => {
+  const [argsText, setArgsText] = useState(settings.constructArgs.join(', '));
+
+  // Follow external changes, e.g. switching workspaces
+  useEffect(() => {
+    setArgsText(current =>
+      parseConstructArgs(current).join(',') === settings.constructArgs.join(',')
+        ? current
+        : settings.constructArgs.join(', ')
+    );
+  }, [settings.constructArgs]);
+
+  const update = (changes: Partial<CompileSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="compile-settings">
+      <label>
+        <span>EVM version</span>
+        <select
+          value={settings.evmVersion}
+          onChange={e => update({ evmVersion: e.target.value as EvmVersion })}
+        >
+          {EVM_VERSIONS.map(version => (
+            <option key={version} value={version}>
+              {version}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        <span>Constructor args</span>
+        <input
+          type="text"
+          value={argsText}
+          onChange={e => setArgsText(e.target.value)}
+          onBlur={() => update({ constructArgs: parseConstructArgs(argsText) })}
+          onKeyDown={e => {
+            if (e.key === 'Enter') update({ constructArgs: parseConstructArgs(argsText) });
+          }}
+          placeholder="0x01, 0x02"
+          spellCheck={false}
+        />
+      </label>
+
+      <label>
+        <span>MAIN macro</span>
+        <select
+          value={settings.alternativeMain}
+          onChange={e => update({ alternativeMain: e.target.value })}
+        >
+          <option value="">MAIN</option>
+          {macros
+            .filter(name => name !== 'MAIN')
+            .map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          {settings.alternativeMain && !macros.includes(settings.alternativeMain) && (
+            <option value={settings.alternativeMain}>{settings.alternativeMain}</option>
+          )}
+        </select>
+      </label>
+
+      <label>
+        <span>CONSTRUCTOR macro</span>
+        <select
+          value={settings.alternativeConstructor}
+          onChange={e => update({ alternativeConstructor: e.target.value })}
+        >
+          <option value="">CONSTRUCTOR</option>
+          {macros
+            .filter(name => name !== 'CONSTRUCTOR')
+            .map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          {settings.alternativeConstructor && !macros.includes(settings.alternativeConstructor) && (
+            <option value={settings.alternativeConstructor}>
+              {settings.alternativeConstructor}
+            </option>
+          )}
+        </select>
+      </label>
+
+      <button
+        className="compile-settings-reset"
+        onClick={() => {
+          setArgsText('');
+          onChange(defaultCompileSettings);
+        }}
+        title="Reset compiler options"
+      >
+        <RotateCcw size={14} />
+      </button>
+    </div>
+  );
+};
+
+// Short description of the non-default options, shown next to the output
+export function describeCompileSettings(settings: CompileSettings): string {
+  const parts: string[] = [settings.evmVersion];
+  if (settings.alternativeMain) parts.push(`main: ${settings.alternativeMain}`);
+  if (settings.alternativeConstructor) {
+    parts.push(`constructor: ${settings.alternativeConstructor}`);
+  }
+  const argCount = settings.constructArgs.length;
+  if (argCount > 0) parts.push(`${argCount} constructor arg${argCount === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+}
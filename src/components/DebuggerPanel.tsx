@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownToLine, FastForward, Play, RotateCcw, Square, StepForward } from 'lucide-react';
+import { CompileResult } from '../compiler/types';
+import { DebugSession, breakpointPcs } from '../evm/debugSession';
+import { toHex, wordToHex } from '../evm/execution';
+import { ExecutionForm, buildTransaction } from './ExecutionPanel';
+import './DebuggerPanel.css';
+
+interface DebuggerPanelProps {
+  compileResult: CompileResult;
+  form: ExecutionForm;
+  // Source of the compiled file, which the source map offsets refer to
+  source: string;
+  // Lines with a breakpoint in the compiled file
+  breakpoints: number[];
+  onLocationChange: (sourceStart: number | null, sourceEnd: number | null) => void;
+}
+
+// Memory rows beyond this are not rendered
+const MAX_MEMORY_ROWS = 512;
+
+function shortHex(value: bigint): string {
+  return '0x' + value.toString(16);
+}
+
+export const DebuggerPanel: React.FC<DebuggerPanelProps> = ({
+  compileResult,
+  form,
+  source,
+  breakpoints,
+  onLocationChange,
+}) => {
+  const [session, setSession] = useState<DebugSession | null>(null);
+  // Bumped after every step, the session itself is mutated in place
+  const [, setRevision] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const onLocationChangeRef = useRef(onLocationChange);
+  onLocationChangeRef.current = onLocationChange;
+
+  const sourceMap = useMemo(
+    () =>
+      (form.mode === 'deploy' ? compileResult.constructor_map : compileResult.runtime_map) || [],
+    [compileResult, form.mode]
+  );
+
+  const pausePcs = useMemo(
+    () => breakpointPcs(sourceMap, source, breakpoints),
+    [sourceMap, source, breakpoints]
+  );
+
+  // Highlight the source of the next instruction, or nothing once execution has finished
+  const refresh = (next: DebugSession | null) => {
+    const location = next && !next.done ? next.location : undefined;
+    onLocationChangeRef.current(location?.source_start ?? null, location?.source_end ?? null);
+    setRevision(revision => revision + 1);
+  };
+
+  // A new compile result invalidates the running session
+  useEffect(() => {
+    setSession(null);
+    setError(null);
+    onLocationChangeRef.current(null, null);
+  }, [compileResult]);
+
+  useEffect(() => () => onLocationChangeRef.current(null, null), []);
+
+  const handleStart = (runToBreakpoint: boolean) => {
+    try {
+      const next = new DebugSession(buildTransaction(form, compileResult), sourceMap);
+      // Pause at a breakpoint on the very first instruction too
+      if (runToBreakpoint && !pausePcs.has(next.interpreter.pc)) next.continue(pausePcs);
+      setSession(next);
+      setError(null);
+      refresh(next);
+    } catch (err) {
+      setSession(null);
+      setError((err as Error).message);
+      refresh(null);
+    }
+  };
+
+  const handleAction = (action: (current: DebugSession) => void) => {
+    if (!session || session.done) return;
+    action(session);
+    refresh(session);
+  };
+
+  const handleStop = () => {
+    setSession(null);
+    refresh(null);
+  };
+
+  const interpreter = session?.interpreter;
+  const location = session && !session.done ? session.location : undefined;
+  const result = session?.result;
+
+  // Next instruction with its push data
+  let instruction = '';
+  if (interpreter && !interpreter.done) {
+    const info = interpreter.currentInstruction();
+    const pc = interpreter.pc;
+    instruction = !info
+      ? `UNKNOWN_0x${(interpreter.env.code[pc] ?? 0).toString(16).padStart(2, '0')}`
+      : info.immediate === 0
+        ? info.name
+        : `${info.name} ${toHex(interpreter.env.code.slice(pc + 1, pc + 1 + info.immediate))}`;
+  }
+
+  const memoryRows = [];
+  if (interpreter) {
+    const rows = Math.min(interpreter.memorySize / 32, MAX_MEMORY_ROWS);
+    for (let row = 0; row < rows; row++) {
+      memoryRows.push({
+        offset: row * 32,
+        bytes: toHex(interpreter.memory.slice(row * 32, row * 32 + 32)).slice(2),
+      });
+    }
+  }
+
+  const storage = interpreter
+    ? [...interpreter.storage.entries()]
+        .filter(([slot, value]) => value !== 0n || interpreter.env.storage.has(slot))
+        .sort(([a], [b]) => (a < b ? -1 : 1))
+    : [];
+
+  return (
+    <div className="debugger-panel">
+      <div className="debugger-toolbar">
+        {session ? (
+          <>
+            <button
+              className="debugger-button"
+              onClick={() => handleAction(current => current.stepInstruction())}
+              disabled={session.done}
+              title="Step one instruction"
+            >
+              <StepForward size={14} />
+            </button>
+            <button
+              className="debugger-button"
+              onClick={() => handleAction(current => current.stepSource())}
+              disabled={session.done}
+              title="Step to the next source location"
+            >
+              <ArrowDownToLine size={14} />
+            </button>
+            <button
+              className="debugger-button"
+              onClick={() => handleAction(current => current.continue(pausePcs))}
+              disabled={session.done}
+              title="Continue to the next breakpoint"
+            >
+              <FastForward size={14} />
+            </button>
+            <button className="debugger-button" onClick={() => handleStart(true)} title="Restart">
+              <RotateCcw size={14} />
+            </button>
+            <button className="debugger-button" onClick={handleStop} title="Stop debugging">
+              <Square size={14} />
+            </button>
+          </>
+        ) : (
+          <>
+            <button className="debugger-button primary" onClick={() => handleStart(true)}>
+              <Play size={14} />
+              <span>Start</span>
+            </button>
+            <button className="debugger-button" onClick={() => handleStart(false)}>
+              <StepForward size={14} />
+              <span>Step in</span>
+            </button>
+          </>
+        )}
+        <span className="debugger-hint">
+          {form.mode === 'deploy' ? 'Deployment' : 'Call'} with the inputs from the Run tab ·{' '}
+          {breakpoints.length === 1 ? '1 breakpoint' : `${breakpoints.length} breakpoints`}
+        </span>
+      </div>
+
+      {error && <div className="debugger-error">{error}</div>}
+
+      {!session && !error && (
+        <div className="debugger-empty">
+          Click the editor gutter to set breakpoints, then start debugging
+        </div>
+      )}
+
+      {session && interpreter && (
+        <>
+          <div className="debugger-state">
+            {session.done ? (
+              <span className={`debugger-status status-${interpreter.status}`}>
+                {interpreter.status === 'reverted'
+                  ? 'Reverted'
+                  : interpreter.status === 'error'
+                    ? `Error: ${interpreter.error}`
+                    : 'Finished'}
+              </span>
+            ) : (
+              <>
+                <span className="debugger-pc">
+                  pc {interpreter.pc} (0x{interpreter.pc.toString(16)})
+                </span>
+                <code className="debugger-instruction">{instruction}</code>
+                {pausePcs.has(interpreter.pc) && (
+                  <span className="debugger-breakpoint-hit">breakpoint</span>
+                )}
+              </>
+            )}
+            <span className="debugger-gas">
+              Step {interpreter.steps} · Gas left {interpreter.gasRemaining}
+              {result && ` · Gas used ${result.gasUsed}`}
+            </span>
+          </div>
+
+          {location && (
+            <code className="debugger-source">
+              {source.substring(location.source_start, location.source_end)}
+            </code>
+          )}
+
+          <div className="debugger-section">
+            <h4>Stack ({interpreter.stack.length})</h4>
+            {interpreter.stack.length === 0 ? (
+              <div className="debugger-none">Empty</div>
+            ) : (
+              <table className="debugger-table">
+                <tbody>
+                  {[...interpreter.stack].reverse().map((value, i) => (
+                    <tr key={i}>
+                      <td className="debugger-index">{i}</td>
+                      <td title={value.toString()}>{shortHex(value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="debugger-section">
+            <h4>Memory ({interpreter.memorySize} bytes)</h4>
+            {memoryRows.length === 0 ? (
+              <div className="debugger-none">Empty</div>
+            ) : (
+              <table className="debugger-table">
+                <tbody>
+                  {memoryRows.map(row => (
+                    <tr key={row.offset}>
+                      <td className="debugger-index">
+                        0x{row.offset.toString(16).padStart(4, '0')}
+                      </td>
+                      <td className="debugger-bytes">{row.bytes}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {interpreter.memorySize / 32 > MAX_MEMORY_ROWS && (
+              <div className="debugger-none">Showing the first {MAX_MEMORY_ROWS * 32} bytes</div>
+            )}
+          </div>
+
+          <div className="debugger-section">
+            <h4>Storage</h4>
+            {storage.length === 0 ? (
+              <div className="debugger-none">Empty</div>
+            ) : (
+              <table className="debugger-table">
+                <tbody>
+                  {storage.map(([slot, value]) => (
+                    <tr
+                      key={slot.toString()}
+                      className={
+                        (interpreter.env.storage.get(slot) || 0n) !== value ? 'changed' : ''
+                      }
+                    >
+                      <td className="debugger-bytes">{wordToHex(slot)}</td>
+                      <td className="debugger-bytes">{wordToHex(value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="debugger-section">
+            <h4>{interpreter.status === 'reverted' ? 'Revert data' : 'Return data'}</h4>
+            {result ? (
+              <code className="debugger-data">{result.output}</code>
+            ) : interpreter.returnData.length > 0 ? (
+              <code className="debugger-data">{toHex(interpreter.returnData)}</code>
+            ) : (
+              <div className="debugger-none">None yet</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
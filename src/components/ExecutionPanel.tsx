@@ -0,0 +1,363 @@
+import React, { useMemo, useState } from 'react';
+import { Play, Plus, Trash2 } from 'lucide-react';
+import { AbiEntry, entryHash, entrySignature } from '../abi/abi';
+import { decodeReturnData, decodeWithSelector, formatValue } from '../abi/encoding';
+import { CompileResult } from '../compiler/types';
+import {
+  DEFAULT_CALLER,
+  DEFAULT_CONTRACT_ADDRESS,
+  DEFAULT_GAS_LIMIT,
+  TransactionInput,
+  TransactionResult,
+  executeTransaction,
+  parseAddress,
+  parseQuantity,
+  wordToHex,
+} from '../evm/execution';
+import { DEFAULT_EVM_VERSION } from '../evm/opcodes';
+import './ExecutionPanel.css';
+
+export interface StorageSlotInput {
+  slot: string;
+  value: string;
+}
+
+// Run inputs as typed in the form
+export interface ExecutionForm {
+  mode: 'call' | 'deploy';
+  calldata: string;
+  callvalue: string;
+  caller: string;
+  gasLimit: string;
+  balance: string;
+  storage: StorageSlotInput[];
+}
+
+export const defaultExecutionForm: ExecutionForm = {
+  mode: 'call',
+  calldata: '',
+  callvalue: '0',
+  caller: DEFAULT_CALLER,
+  gasLimit: String(DEFAULT_GAS_LIMIT),
+  balance: '0',
+  storage: [],
+};
+
+// Build the transaction for the compiled code from the form
+export function buildTransaction(
+  form: ExecutionForm,
+  compileResult: CompileResult
+): TransactionInput {
+  const storage = new Map<bigint, bigint>();
+  for (const { slot, value } of form.storage) {
+    if (!slot.trim()) continue;
+    storage.set(parseQuantity(slot, 'storage slot'), parseQuantity(value, 'storage value'));
+  }
+  const gasLimit = Number(parseQuantity(form.gasLimit, 'gas limit'));
+  return {
+    code: (form.mode === 'deploy' ? compileResult.bytecode : compileResult.runtime) || '0x',
+    // Constructor arguments are already part of the compiled bytecode
+    calldata: form.mode === 'deploy' ? '0x' : form.calldata,
+    callvalue: parseQuantity(form.callvalue, 'call value'),
+    caller: parseAddress(form.caller),
+    address: parseAddress(DEFAULT_CONTRACT_ADDRESS),
+    gasLimit: Math.min(gasLimit, Number.MAX_SAFE_INTEGER),
+    storage,
+    balance: parseQuantity(form.balance, 'balance'),
+    evmVersion: compileResult.settings?.evmVersion || DEFAULT_EVM_VERSION,
+    isDeployment: form.mode === 'deploy',
+  };
+}
+
+interface ExecutionPanelProps {
+  compileResult: CompileResult;
+  abi: AbiEntry[];
+  form: ExecutionForm;
+  onFormChange: (form: ExecutionForm) => void;
+}
+
+const STATUS_LABELS: Record<TransactionResult['status'], string> = {
+  running: 'Running',
+  stopped: 'Success (STOP)',
+  returned: 'Success',
+  reverted: 'Reverted',
+  error: 'Error',
+};
+
+export const ExecutionPanel: React.FC<ExecutionPanelProps> = ({
+  compileResult,
+  abi,
+  form,
+  onFormChange,
+}) => {
+  const [result, setResult] = useState<TransactionResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const functions = useMemo(() => abi.filter(entry => entry.type === 'function'), [abi]);
+
+  const update = (changes: Partial<ExecutionForm>) => onFormChange({ ...form, ...changes });
+
+  const updateSlot = (index: number, changes: Partial<StorageSlotInput>) =>
+    update({
+      storage: form.storage.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)),
+    });
+
+  const handleRun = () => {
+    try {
+      setResult(executeTransaction(buildTransaction(form, compileResult)));
+      setRunError(null);
+    } catch (error) {
+      setResult(null);
+      setRunError((error as Error).message);
+    }
+  };
+
+  // Carry the storage written by this run over into the pre-state
+  const handleApplyStorage = () => {
+    if (!result) return;
+    const storage = [...form.storage];
+    for (const change of result.storageChanges) {
+      const existing = storage.findIndex(
+        slot => slot.slot.trim() && parseQuantity(slot.slot, 'storage slot') === change.slot
+      );
+      const entry = { slot: wordToHex(change.slot), value: wordToHex(change.after) };
+      if (existing >= 0) storage[existing] = entry;
+      else storage.push(entry);
+    }
+    update({ storage });
+  };
+
+  // Decoded return data or revert reason, where the ABI allows
+  const decodedOutput = useMemo(() => {
+    if (!result || result.output === '0x' || form.mode === 'deploy') return null;
+    try {
+      if (result.status === 'reverted') {
+        const errors = abi.filter(entry => entry.type === 'error');
+        const { entry, values } = decodeWithSelector(errors, result.output);
+        return `${entry.name}(${values.map(formatValue).join(', ')})`;
+      }
+      const selector = form.calldata.trim().replace(/^0x/, '').slice(0, 8).toLowerCase();
+      const fn = functions.find(entry => entryHash(entry) === `0x${selector}`);
+      if (fn && fn.outputs && fn.outputs.length > 0) {
+        return decodeReturnData(fn, result.output).map(formatValue).join(', ');
+      }
+    } catch {
+      // Not decodable with the ABI, the raw data is still shown
+    }
+    return null;
+  }, [result, abi, functions, form.mode, form.calldata]);
+
+  const eventName = (topic?: string) => {
+    const event = abi.find(entry => entry.type === 'event' && entryHash(entry) === topic);
+    return event ? entrySignature(event) : null;
+  };
+
+  return (
+    <div className="execution-panel">
+      <div className="execution-form">
+        <div className="execution-modes">
+          <button
+            className={`execution-mode ${form.mode === 'call' ? 'active' : ''}`}
+            onClick={() => update({ mode: 'call' })}
+          >
+            Call runtime
+          </button>
+          <button
+            className={`execution-mode ${form.mode === 'deploy' ? 'active' : ''}`}
+            onClick={() => update({ mode: 'deploy' })}
+          >
+            Deploy
+          </button>
+        </div>
+
+        {form.mode === 'call' && (
+          <label className="execution-field">
+            <span>
+              Calldata
+              {functions.length > 0 && (
+                <select
+                  value=""
+                  onChange={e => e.target.value && update({ calldata: e.target.value })}
+                  title="Start from a function selector"
+                >
+                  <option value="">selector...</option>
+                  {functions.map(entry => (
+                    <option key={entrySignature(entry)} value={entryHash(entry) || ''}>
+                      {entrySignature(entry)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </span>
+            <textarea
+              value={form.calldata}
+              onChange={e => update({ calldata: e.target.value })}
+              placeholder="0x..."
+              spellCheck={false}
+            />
+          </label>
+        )}
+
+        <div className="execution-row">
+          <label className="execution-field">
+            <span>Call value (wei)</span>
+            <input
+              type="text"
+              value={form.callvalue}
+              onChange={e => update({ callvalue: e.target.value })}
+            />
+          </label>
+          <label className="execution-field">
+            <span>Gas limit</span>
+            <input
+              type="text"
+              value={form.gasLimit}
+              onChange={e => update({ gasLimit: e.target.value })}
+            />
+          </label>
+        </div>
+
+        <label className="execution-field">
+          <span>Caller</span>
+          <input
+            type="text"
+            value={form.caller}
+            onChange={e => update({ caller: e.target.value })}
+            spellCheck={false}
+          />
+        </label>
+
+        <div className="execution-prestate">
+          <div className="execution-prestate-header">
+            <span>Pre-state</span>
+            <button
+              className="execution-icon-button"
+              onClick={() => update({ storage: [...form.storage, { slot: '', value: '' }] })}
+              title="Add storage slot"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+          <label className="execution-field">
+            <span>Contract balance (wei)</span>
+            <input
+              type="text"
+              value={form.balance}
+              onChange={e => update({ balance: e.target.value })}
+            />
+          </label>
+          {form.storage.map((slot, i) => (
+            <div key={i} className="execution-slot">
+              <input
+                type="text"
+                value={slot.slot}
+                onChange={e => updateSlot(i, { slot: e.target.value })}
+                placeholder="slot"
+                spellCheck={false}
+              />
+              <input
+                type="text"
+                value={slot.value}
+                onChange={e => updateSlot(i, { value: e.target.value })}
+                placeholder="value"
+                spellCheck={false}
+              />
+              <button
+                className="execution-icon-button"
+                onClick={() => update({ storage: form.storage.filter((_, j) => j !== i) })}
+                title="Remove slot"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button className="execution-run" onClick={handleRun}>
+          <Play size={14} />
+          <span>{form.mode === 'deploy' ? 'Deploy' : 'Run'}</span>
+        </button>
+        {runError && <div className="execution-error">{runError}</div>}
+      </div>
+
+      {result && (
+        <div className="execution-result">
+          <div className={`execution-status status-${result.status}`}>
+            {STATUS_LABELS[result.status]}
+            {result.error && <span>: {result.error}</span>}
+          </div>
+
+          <div className="execution-stats">
+            <span
+              title={`Intrinsic ${result.intrinsicGas} + execution ${result.executionGas} - refund ${result.refund}`}
+            >
+              Gas used: {result.gasUsed}
+            </span>
+            <span>•</span>
+            <span>Steps: {result.steps}</span>
+          </div>
+
+          <div className="execution-section">
+            <h4>
+              {form.mode === 'deploy'
+                ? 'Deployed code'
+                : result.status === 'reverted'
+                  ? 'Revert data'
+                  : 'Return data'}
+            </h4>
+            <code className="execution-data">{result.output}</code>
+            {decodedOutput && <div className="execution-decoded">{decodedOutput}</div>}
+          </div>
+
+          {result.logs.length > 0 && (
+            <div className="execution-section">
+              <h4>Logs</h4>
+              {result.logs.map((log, i) => (
+                <div key={i} className="execution-log">
+                  {eventName(log.topics[0]) && (
+                    <div className="execution-decoded">{eventName(log.topics[0])}</div>
+                  )}
+                  {log.topics.map((topic, j) => (
+                    <code key={j} className="execution-data">
+                      topic{j}: {topic}
+                    </code>
+                  ))}
+                  <code className="execution-data">data: {log.data}</code>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.storageChanges.length > 0 && (
+            <div className="execution-section">
+              <h4>
+                Storage changes
+                <button className="execution-link" onClick={handleApplyStorage}>
+                  Use as pre-state
+                </button>
+              </h4>
+              <table className="execution-storage">
+                <thead>
+                  <tr>
+                    <th>Slot</th>
+                    <th>Before</th>
+                    <th>After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.storageChanges.map(change => (
+                    <tr key={change.slot.toString()}>
+                      <td>{wordToHex(change.slot)}</td>
+                      <td>{wordToHex(change.before)}</td>
+                      <td>{wordToHex(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
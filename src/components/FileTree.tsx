@@ -19,6 +19,7 @@ interface FileTreeProps {
   onFileDelete: (fileId: string) => void;
   onFileRename: (fileId: string, newName: string) => void;
   onToggleFolder: (folderId: string) => void;
+  onFilesDrop?: (parentId: string | null, files: File[]) => void;
 }
 
 export const FileTree: React.FC<FileTreeProps> = ({
@@ -29,6 +30,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
   onFileDelete,
   onFileRename,
   onToggleFolder,
+  onFilesDrop,
 }) => {
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; nodeId: string } | null>(
     null
@@ -40,6 +42,8 @@ export const FileTree: React.FC<FileTreeProps> = ({
   const [newItemName, setNewItemName] = useState('');
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState('');
+  // Folder id under the cursor while dragging files in, 'root' for the tree itself
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
 
   const handleContextMenu = (e: React.MouseEvent, nodeId: string) => {
     e.preventDefault();
@@ -74,17 +78,46 @@ export const FileTree: React.FC<FileTreeProps> = ({
     }
   };
 
-  const renderNode = (node: FileNode, level: number = 0): React.ReactElement => {
+  const handleDragOver = (e: React.DragEvent, targetId: string | null) => {
+    if (!onFilesDrop || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'copy';
+    setDropTarget(targetId || 'root');
+  };
+
+  const handleDrop = (e: React.DragEvent, targetId: string | null) => {
+    if (!onFilesDrop) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    const droppedFiles = Array.from(e.dataTransfer.files);
+    if (droppedFiles.length > 0) {
+      onFilesDrop(targetId, droppedFiles);
+    }
+  };
+
+  const renderNode = (
+    node: FileNode,
+    level: number = 0,
+    parentId: string | null = null
+  ): React.ReactElement => {
     const isSelected = selectedFile === node.id;
     const isRenaming = renamingId === node.id;
+    // Files dropped onto a file land in the folder that contains it
+    const dropFolderId = node.type === 'folder' ? node.id : parentId;
 
     return (
       <div key={node.id}>
         <div
-          className={`file-tree-item ${isSelected ? 'selected' : ''}`}
+          className={`file-tree-item ${isSelected ? 'selected' : ''} ${
+            node.type === 'folder' && dropTarget === node.id ? 'drop-target' : ''
+          }`}
           style={{ paddingLeft: `${level * 20 + 8}px` }}
           onClick={() => (node.type === 'file' ? onFileSelect(node) : onToggleFolder(node.id))}
           onContextMenu={e => handleContextMenu(e, node.id)}
+          onDragOver={e => handleDragOver(e, dropFolderId)}
+          onDrop={e => handleDrop(e, dropFolderId)}
         >
           {node.type === 'folder' ? (
             node.isOpen ? (
@@ -120,7 +153,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
           )}
         </div>
         {node.type === 'folder' && node.isOpen && node.children && (
-          <div>{node.children.map(child => renderNode(child, level + 1))}</div>
+          <div>{node.children.map(child => renderNode(child, level + 1, node.id))}</div>
         )}
       </div>
     );
@@ -140,7 +173,14 @@ export const FileTree: React.FC<FileTreeProps> = ({
         </div>
       </div>
 
-      <div className="file-tree-content">
+      <div
+        className={`file-tree-content ${dropTarget === 'root' ? 'drop-target' : ''}`}
+        onDragOver={e => handleDragOver(e, null)}
+        onDragLeave={e => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+        }}
+        onDrop={e => handleDrop(e, null)}
+      >
         {files.map(node => renderNode(node))}
 
         {isCreating && (
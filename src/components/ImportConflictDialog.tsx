@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { ConflictResolution } from '../workspace/archive';
+import './ImportConflictDialog.css';
+
+interface ImportConflictDialogProps {
+  conflicts: string[];
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  overwrite: 'Overwrite',
+  rename: 'Keep both',
+  skip: 'Skip',
+};
+
+export const ImportConflictDialog: React.FC<ImportConflictDialogProps> = ({
+  conflicts,
+  onConfirm,
+  onCancel,
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(() =>
+    Object.fromEntries(conflicts.map(path => [path, 'rename' as ConflictResolution]))
+  );
+
+  const setAll = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(path => [path, resolution])));
+  };
+
+  return (
+    <div className="dialog-backdrop" onClick={onCancel}>
+      <div className="dialog" onClick={e => e.stopPropagation()}>
+        <div className="dialog-header">
+          <AlertCircle size={16} />
+          <span>
+            {conflicts.length}{' '}
+            {conflicts.length === 1 ? 'file already exists' : 'files already exist'}
+          </span>
+        </div>
+        <div className="dialog-content">
+          <div className="conflict-apply-all">
+            <span>Apply to all:</span>
+            {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+              <button key={resolution} onClick={() => setAll(resolution)}>
+                {RESOLUTION_LABELS[resolution]}
+              </button>
+            ))}
+          </div>
+          <div className="conflict-list">
+            {conflicts.map(path => (
+              <div key={path} className="conflict-item">
+                <span className="conflict-path">{path}</span>
+                <select
+                  value={resolutions[path]}
+                  onChange={e =>
+                    setResolutions(prev => ({
+                      ...prev,
+                      [path]: e.target.value as ConflictResolution,
+                    }))
+                  }
+                >
+                  {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                    <option key={resolution} value={resolution}>
+                      {RESOLUTION_LABELS[resolution]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="dialog-actions">
+          <button onClick={onCancel}>Cancel</button>
+          <button className="primary" onClick={() => onConfirm(resolutions)}>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { LINT_RULES, LintSettings, isRuleEnabled } from '../language/lint';
+import './LintRulesPanel.css';
+
+interface LintRulesPanelProps {
+  settings: LintSettings;
+  onChange: (settings: LintSettings) => void;
+}
+
+export const LintRulesPanel: React.FC<LintRulesPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="lint-rules">
+      <span className="lint-rules-title">Lints</span>
+      {LINT_RULES.map(rule => (
+        <label key={rule.id} title={rule.description}>
+          <input
+            type="checkbox"
+            checked={isRuleEnabled(settings, rule.id)}
+            onChange={e => onChange({ ...settings, [rule.id]: e.target.checked })}
+          />
+          <span>{rule.id}</span>
+        </label>
+      ))}
+    </div>
+  );
+};
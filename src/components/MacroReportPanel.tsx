@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { InternalSourceMapEntry } from '../compiler/types';
+import { MacroCost, buildMacroReport } from '../evm/macroReport';
+import { EvmVersion } from '../evm/opcodes';
+import { parseHuffFile } from '../language/symbols';
+import { squarify } from '../utils/treemap';
+import './MacroReportPanel.css';
+
+interface MacroReportPanelProps {
+  bytecode: string;
+  sourceMap?: InternalSourceMapEntry[];
+  // Path and source of the compiled file
+  path: string;
+  source: string;
+  evmVersion?: EvmVersion;
+  onSelect: (sourceStart: number) => void;
+}
+
+type ReportView = 'definitions' | 'callSites';
+type SortKey = 'macro' | 'caller' | 'bytes' | 'gas' | 'instructions' | 'expansions';
+
+// Treemap layout size; the container keeps the same aspect ratio
+const TREEMAP_WIDTH = 400;
+const TREEMAP_HEIGHT = 160;
+const TREEMAP_COLORS = ['#264f78', '#3a3d6b', '#1e5c4f', '#5c3d5c', '#4d4d26', '#5a3b22'];
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '0%';
+}
+
+export const MacroReportPanel: React.FC<MacroReportPanelProps> = ({
+  bytecode,
+  sourceMap,
+  path,
+  source,
+  evmVersion,
+  onSelect,
+}) => {
+  const [view, setView] = useState<ReportView>('definitions');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: 'bytes',
+    descending: true,
+  });
+
+  const report = useMemo(
+    () => buildMacroReport(bytecode, sourceMap || [], parseHuffFile(path, source), evmVersion),
+    [bytecode, sourceMap, path, source, evmVersion]
+  );
+
+  const rows = useMemo(() => {
+    const costs = view === 'definitions' ? report.definitions : report.callSites;
+    const direction = sort.descending ? -1 : 1;
+    return [...costs].sort((a, b) => {
+      const left = a[sort.key] ?? '';
+      const right = b[sort.key] ?? '';
+      if (left === right) return a.sourceStart - b.sourceStart;
+      return (left < right ? -1 : 1) * direction;
+    });
+  }, [report, view, sort]);
+
+  const treemap = useMemo(
+    () =>
+      squarify(
+        report.definitions.map(cost => ({ value: cost.bytes, data: cost })),
+        TREEMAP_WIDTH,
+        TREEMAP_HEIGHT
+      ),
+    [report]
+  );
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev =>
+      prev.key === key
+        ? { key, descending: !prev.descending }
+        : { key, descending: key !== 'macro' && key !== 'caller' }
+    );
+  };
+
+  const header = (key: SortKey, label: string, numeric = true) => (
+    <th className={numeric ? 'numeric' : ''} onClick={() => handleSort(key)}>
+      {label}
+      {sort.key === key && (sort.descending ? <ChevronDown size={12} /> : <ChevronUp size={12} />)}
+    </th>
+  );
+
+  const describe = (cost: MacroCost) =>
+    `${cost.macro}: ${cost.bytes} bytes (${percent(cost.bytes, report.totalBytes)}), ${cost.gas} static gas`;
+
+  if (report.totalBytes === 0) {
+    return <div className="macro-report-empty">No bytecode to analyze</div>;
+  }
+
+  return (
+    <div className="macro-report">
+      <div className="macro-report-summary">
+        <span>{report.totalBytes} bytes</span>
+        <span>•</span>
+        <span>{report.instructions} instructions</span>
+        <span>•</span>
+        <span>{report.pushDataBytes} bytes of push data</span>
+        {report.unattributedBytes > 0 && (
+          <>
+            <span>•</span>
+            <span title="Bytes without a source mapping into a macro of this file">
+              {report.unattributedBytes} bytes unattributed
+            </span>
+          </>
+        )}
+      </div>
+
+      {treemap.length > 0 && (
+        <div className="macro-treemap">
+          {treemap.map((rect, i) => (
+            <div
+              key={rect.data.macro}
+              className="macro-treemap-cell"
+              style={{
+                left: `${(rect.x / TREEMAP_WIDTH) * 100}%`,
+                top: `${(rect.y / TREEMAP_HEIGHT) * 100}%`,
+                width: `${(rect.width / TREEMAP_WIDTH) * 100}%`,
+                height: `${(rect.height / TREEMAP_HEIGHT) * 100}%`,
+                background: TREEMAP_COLORS[i % TREEMAP_COLORS.length],
+              }}
+              title={describe(rect.data)}
+              onClick={() => onSelect(rect.data.sourceStart)}
+            >
+              {rect.width > 40 && rect.height > 16 && (
+                <span>
+                  {rect.data.macro}
+                  {rect.height > 32 && <em>{rect.data.bytes} B</em>}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="macro-report-views">
+        <button
+          className={view === 'definitions' ? 'active' : ''}
+          onClick={() => setView('definitions')}
+          title="Bytes written directly in each macro body"
+        >
+          Definitions
+        </button>
+        <button
+          className={view === 'callSites' ? 'active' : ''}
+          onClick={() => setView('callSites')}
+          title="Bytes generated by each macro invocation, including nested macros"
+        >
+          Call sites
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="macro-report-empty">
+          {view === 'callSites'
+            ? 'The source map has no entries for macro invocations'
+            : 'No bytecode maps to a macro in this file'}
+        </div>
+      ) : (
+        <table className="macro-report-table">
+          <thead>
+            <tr>
+              {header('macro', 'Macro', false)}
+              {view === 'callSites' && header('caller', 'Called from', false)}
+              {header('bytes', 'Bytes')}
+              <th className="numeric">Size</th>
+              {header('gas', 'Static gas')}
+              {header('instructions', 'Instr.')}
+              {header('expansions', 'Expanded')}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(cost => (
+              <tr
+                key={`${cost.macro}-${cost.sourceStart}`}
+                onClick={() => onSelect(cost.sourceStart)}
+                title="Go to source"
+              >
+                <td className="macro-name">{cost.macro}</td>
+                {view === 'callSites' && <td>{cost.caller || ''}</td>}
+                <td className="numeric">{cost.bytes}</td>
+                <td className="numeric">
+                  <span className="macro-share">
+                    <span style={{ width: percent(cost.bytes, report.totalBytes) }} />
+                  </span>
+                  {percent(cost.bytes, report.totalBytes)}
+                </td>
+                <td className="numeric">{cost.gas}</td>
+                <td className="numeric">{cost.instructions}</td>
+                <td className="numeric">{cost.expansions}×</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
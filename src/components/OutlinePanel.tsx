@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Braces,
+  ChevronDown,
+  ChevronRight,
+  FlaskConical,
+  Hash,
+  LucideIcon,
+  SquareFunction,
+  Table,
+  Tag,
+  TriangleAlert,
+  Zap,
+} from 'lucide-react';
+import { OutlineItem } from '../language/outline';
+import { HuffSymbolKind } from '../language/symbols';
+import './OutlinePanel.css';
+
+interface OutlinePanelProps {
+  items: OutlineItem[];
+  // Innermost item at the cursor
+  activeItem?: OutlineItem;
+  onSelect: (offset: number) => void;
+}
+
+// Also used by the editor breadcrumbs
+export const SYMBOL_ICONS: Record<HuffSymbolKind, LucideIcon> = {
+  constant: Hash,
+  function: SquareFunction,
+  event: Zap,
+  error: TriangleAlert,
+  macro: Box,
+  fn: Braces,
+  test: FlaskConical,
+  table: Table,
+  label: Tag,
+};
+
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({ items, activeItem, onSelect }) => {
+  // Macros whose labels are hidden, by name
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (name: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const renderItem = (item: OutlineItem, level: number): React.ReactNode => {
+    const { symbol } = item;
+    const Icon = SYMBOL_ICONS[symbol.kind];
+    const expandable = item.children.length > 0;
+    const isCollapsed = collapsed.has(symbol.name);
+    const isActive = activeItem?.symbol === symbol;
+
+    return (
+      <React.Fragment key={`${symbol.kind}:${symbol.name}:${symbol.nameStart}`}>
+        <div
+          className={`outline-item ${isActive ? 'active' : ''}`}
+          style={{ paddingLeft: `${level * 16 + 4}px` }}
+          title={`${symbol.name} ${symbol.detail}`.trim()}
+          onClick={() => onSelect(symbol.nameStart)}
+        >
+          <span
+            className="outline-toggle"
+            onClick={event => {
+              if (!expandable) return;
+              event.stopPropagation();
+              toggle(symbol.name);
+            }}
+          >
+            {expandable && (isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />)}
+          </span>
+          <Icon size={14} className={`outline-icon outline-icon-${symbol.kind}`} />
+          <span className="outline-name">{symbol.name}</span>
+          <span className="outline-detail">{symbol.kind}</span>
+        </div>
+        {expandable && !isCollapsed && item.children.map(child => renderItem(child, level + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="outline-panel">
+      <div className="outline-header">
+        <span>Outline</span>
+        {items.length > 0 && <span className="outline-count">{items.length}</span>}
+      </div>
+      <div className="outline-content">
+        {items.length === 0 ? (
+          <div className="outline-empty">No definitions in this file</div>
+        ) : (
+          items.map(item => renderItem(item, 0))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import {
+  CodeSizes,
+  SizeBudget,
+  SizeLimits,
+  defaultSizeLimits,
+  sizeBudgets,
+} from '../evm/sizeLimits';
+import './SizeBudgetPanel.css';
+
+interface SizeBudgetPanelProps {
+  sizes: CodeSizes;
+  limits: SizeLimits;
+  onLimitsChange: (limits: SizeLimits) => void;
+}
+
+const BUDGET_LABELS: Record<SizeBudget['kind'], { name: string; eip: string }> = {
+  runtime: { name: 'Runtime', eip: 'EIP-170' },
+  initcode: { name: 'Initcode', eip: 'EIP-3860' },
+};
+
+function formatBytes(bytes: number): string {
+  return bytes.toLocaleString('en-US');
+}
+
+// Positive whole numbers only, anything else keeps the previous value
+function parseLimit(text: string, fallback: number): number {
+  const value = Number(text);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+interface LimitInputProps {
+  label: string;
+  value: number;
+  max?: number;
+  onChange: (value: number) => void;
+}
+
+// Number field that applies its value on blur or Enter, so it can be cleared while typing
+const LimitInput: React.FC<LimitInputProps> = ({ label, value, max, onChange }) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseLimit(text, value);
+    const next = max !== undefined ? Math.min(parsed, max) : parsed;
+    setText(String(next));
+    if (next !== value) onChange(next);
+  };
+
+  return (
+    <label>
+      <span>{label}</span>
+      <input
+        type="number"
+        min={1}
+        max={max}
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+        }}
+      />
+    </label>
+  );
+};
+
+export const SizeBudgetPanel: React.FC<SizeBudgetPanelProps> = ({
+  sizes,
+  limits,
+  onLimitsChange,
+}) => {
+  const [showLimits, setShowLimits] = useState(false);
+  const budgets = sizeBudgets(sizes, limits);
+
+  const update = (changes: Partial<SizeLimits>) => onLimitsChange({ ...limits, ...changes });
+
+  return (
+    <div className="size-budgets">
+      {budgets.map(budget => {
+        const { name, eip } = BUDGET_LABELS[budget.kind];
+        const percent = (budget.bytes / budget.limit) * 100;
+        return (
+          <div key={budget.kind} className={`size-budget level-${budget.level}`}>
+            <div className="size-budget-header">
+              <span className="size-budget-name" title={`${eip} limit`}>
+                {name}
+              </span>
+              <span>
+                {formatBytes(budget.bytes)} / {formatBytes(budget.limit)} bytes
+              </span>
+              <span className="size-budget-percent">{percent.toFixed(1)}%</span>
+              {budget.kind === 'initcode' && (
+                <span className="size-budget-detail">
+                  constructor {formatBytes(sizes.constructor)} + runtime{' '}
+                  {formatBytes(sizes.runtime)}
+                  {sizes.args > 0 && ` + args ${formatBytes(sizes.args)}`}
+                </span>
+              )}
+            </div>
+            <div className="size-budget-bar">
+              <div className="size-budget-fill" style={{ width: `${Math.min(percent, 100)}%` }} />
+              <div
+                className="size-budget-threshold"
+                style={{ left: `${Math.min(limits.warningPercent, 100)}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        className={`size-budget-toggle ${showLimits ? 'active' : ''}`}
+        onClick={() => setShowLimits(!showLimits)}
+        title="Size limits"
+      >
+        <SlidersHorizontal size={14} />
+      </button>
+
+      {showLimits && (
+        <div className="size-limits">
+          <LimitInput
+            label="Runtime limit (bytes)"
+            value={limits.runtime}
+            onChange={runtime => update({ runtime })}
+          />
+          <LimitInput
+            label="Initcode limit (bytes)"
+            value={limits.initcode}
+            onChange={initcode => update({ initcode })}
+          />
+          <LimitInput
+            label="Warn at (%)"
+            value={limits.warningPercent}
+            max={100}
+            onChange={warningPercent => update({ warningPercent })}
+          />
+          <button
+            className="size-limits-reset"
+            onClick={() => onLimitsChange(defaultSizeLimits)}
+            title="Reset to the mainnet limits"
+          >
+            <RotateCcw size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  Play,
+  RotateCcw,
+  Square,
+  XCircle,
+} from 'lucide-react';
+import { CompileSettings } from '../compiler/types';
+import { SourceLocation, locationAt } from '../language/models';
+import { parseHuffFile } from '../language/symbols';
+import { HuffTest, TestResult, findTests, testKey, testRunner } from '../testing/testRunner';
+import './TestsPanel.css';
+
+interface TestsPanelProps {
+  // Workspace files by path, with the live content of the open file
+  files: Map<string, string>;
+  settings: CompileSettings;
+  onOpen: (location: SourceLocation) => void;
+}
+
+const STATUS_ICONS = {
+  passed: <CheckCircle2 size={14} />,
+  failed: <XCircle size={14} />,
+  error: <AlertCircle size={14} />,
+};
+
+export const TestsPanel: React.FC<TestsPanelProps> = ({ files, settings, onOpen }) => {
+  const [results, setResults] = useState<Map<string, TestResult>>(new Map());
+  // Keys of the tests queued in the current run
+  const [queued, setQueued] = useState<Set<string>>(new Set());
+
+  const tests = useMemo(
+    () => findTests([...files].map(([path, source]) => parseHuffFile(path, source))),
+    [files]
+  );
+
+  // Stop running tests when the panel closes
+  useEffect(() => () => testRunner.cancel(), []);
+
+  const runTests = async (selected: HuffTest[]) => {
+    if (selected.length === 0) return;
+    setQueued(new Set(selected.map(testKey)));
+    setResults(prev => {
+      const next = new Map(prev);
+      for (const test of selected) next.delete(testKey(test));
+      return next;
+    });
+    await testRunner.run(selected, files, settings, (test, result) => {
+      setResults(prev => new Map(prev).set(testKey(test), result));
+      setQueued(prev => {
+        const next = new Set(prev);
+        next.delete(testKey(test));
+        return next;
+      });
+    });
+  };
+
+  const handleStop = () => {
+    testRunner.cancel();
+    setQueued(new Set());
+  };
+
+  const failedTests = tests.filter(test => {
+    const status = results.get(testKey(test))?.status;
+    return status === 'failed' || status === 'error';
+  });
+  const passedCount = tests.filter(test => results.get(testKey(test))?.status === 'passed').length;
+  const running = queued.size > 0;
+
+  const handleOpen = (test: HuffTest) => {
+    onOpen(locationAt(test.file, files.get(test.file) || '', test.nameStart));
+  };
+
+  if (tests.length === 0) {
+    return (
+      <div className="tests-panel">
+        <div className="tests-empty">
+          No tests found. Add a <code>#define test NAME() = takes(0) returns(0) {'{ ... }'}</code>{' '}
+          block to any file; a test passes unless it reverts.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="tests-panel">
+      <div className="tests-toolbar">
+        <button className="tests-button primary" onClick={() => runTests(tests)} disabled={running}>
+          <Play size={14} />
+          <span>Run all</span>
+        </button>
+        <button
+          className="tests-button"
+          onClick={() => runTests(failedTests)}
+          disabled={running || failedTests.length === 0}
+        >
+          <RotateCcw size={14} />
+          <span>Rerun failed</span>
+        </button>
+        {running && (
+          <button className="tests-button" onClick={handleStop} title="Stop the test run">
+            <Square size={14} />
+          </button>
+        )}
+        <span className="tests-summary">
+          {tests.length} tests
+          {results.size > 0 && ` · ${passedCount} passed · ${failedTests.length} failed`}
+        </span>
+      </div>
+
+      <div className="tests-list">
+        {tests.map(test => {
+          const key = testKey(test);
+          const result = results.get(key);
+          const status = queued.has(key) ? 'running' : result?.status || 'pending';
+          return (
+            <div key={key} className={`test-row status-${status}`}>
+              <div className="test-header">
+                <span className="test-status">
+                  {status === 'running' ? (
+                    <Loader2 size={14} className="test-spinner" />
+                  ) : status === 'pending' ? (
+                    <Circle size={14} />
+                  ) : (
+                    STATUS_ICONS[status]
+                  )}
+                </span>
+                <button className="test-name" onClick={() => handleOpen(test)} title="Go to test">
+                  {test.name}
+                </button>
+                <span className="test-file">{test.file}</span>
+                <span className="test-actions">
+                  {result?.gasUsed !== undefined && (
+                    <span className="test-gas">{result.gasUsed} gas</span>
+                  )}
+                  <button
+                    className="tests-icon-button"
+                    onClick={() => runTests([test])}
+                    disabled={running}
+                    title="Run this test"
+                  >
+                    <Play size={12} />
+                  </button>
+                </span>
+              </div>
+              {result && result.status !== 'passed' && (
+                <div className="test-details">
+                  {result.error && <div className="test-error">{result.error}</div>}
+                  {result.revertData !== undefined && (
+                    <code className="test-data">
+                      {result.revertData === '0x'
+                        ? 'Reverted without data'
+                        : `Revert data: ${result.revertData}`}
+                    </code>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { FolderPlus, RotateCcw, Trash2 } from 'lucide-react';
+import './WorkspaceSwitcher.css';
+
+interface WorkspaceSwitcherProps {
+  workspaces: string[];
+  current: string;
+  onSwitch: (name: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (name: string) => void;
+  onReset: () => void;
+}
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  current,
+  onSwitch,
+  onCreate,
+  onDelete,
+  onReset,
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleSubmitNew = () => {
+    const name = newName.trim();
+    if (name) {
+      onCreate(name);
+    }
+    setIsCreating(false);
+    setNewName('');
+  };
+
+  // Always list the current workspace, even before it has been saved for the first time
+  const names = workspaces.includes(current) ? workspaces : [...workspaces, current].sort();
+
+  return (
+    <div className="workspace-switcher">
+      {isCreating ? (
+        <input
+          type="text"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onBlur={handleSubmitNew}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleSubmitNew();
+            if (e.key === 'Escape') setIsCreating(false);
+          }}
+          placeholder="Workspace name..."
+          autoFocus
+          className="workspace-input"
+        />
+      ) : (
+        <select
+          className="workspace-select"
+          value={current}
+          onChange={e => onSwitch(e.target.value)}
+          title="Switch workspace"
+        >
+          {names.map(name => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      )}
+      <button onClick={() => setIsCreating(true)} title="New workspace">
+        <FolderPlus size={16} />
+      </button>
+      <button
+        onClick={() => {
+          if (window.confirm(`Reset "${current}" to the example files? Your edits will be lost.`)) {
+            onReset();
+          }
+        }}
+        title="Reset to examples"
+      >
+        <RotateCcw size={16} />
+      </button>
+      <button
+        onClick={() => {
+          if (window.confirm(`Delete workspace "${current}"?`)) {
+            onDelete(current);
+          }
+        }}
+        disabled={names.length <= 1}
+        title="Delete workspace"
+      >
+        <Trash2 size={16} />
+      </button>
+    </div>
+  );
+};
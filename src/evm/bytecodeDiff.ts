@@ -0,0 +1,99 @@
+// Instruction-level diff of two compilations, with size and static gas totals
+import { DiffEdit, diffSequences } from '../utils/diff';
+import { Instruction, disassemble } from './disassembler';
+import { DEFAULT_EVM_VERSION, EvmVersion } from './opcodes';
+
+// 'changed' is the same opcode with a different immediate, e.g. a shifted jump target
+export type DiffRowKind = 'equal' | 'removed' | 'added' | 'changed';
+
+export interface DiffRow {
+  kind: DiffRowKind;
+  before?: Instruction;
+  after?: Instruction;
+}
+
+export interface CodeTotals {
+  bytes: number;
+  instructions: number;
+  // Sum of the base gas of the instructions, without dynamic costs
+  gas: number;
+}
+
+export interface BytecodeDiff {
+  rows: DiffRow[];
+  before: CodeTotals;
+  after: CodeTotals;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface DiffSide {
+  bytecode: string;
+  evmVersion?: EvmVersion;
+}
+
+function totals(instructions: Instruction[]): CodeTotals {
+  return {
+    bytes: instructions.reduce((sum, instruction) => sum + instruction.size, 0),
+    instructions: instructions.length,
+    gas: instructions.reduce((sum, instruction) => sum + (instruction.info?.gas || 0), 0),
+  };
+}
+
+function sameInstruction(a: Instruction, b: Instruction): boolean {
+  return a.opcode === b.opcode && a.immediate === b.immediate;
+}
+
+// Pair up the deletions and insertions of one hunk, matching equal opcodes as changes
+function hunkRows(deleted: Instruction[], inserted: Instruction[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+    const before = deleted[i];
+    const after = inserted[i];
+    if (before && after && before.opcode === after.opcode) {
+      rows.push({ kind: 'changed', before, after });
+      continue;
+    }
+    if (before) rows.push({ kind: 'removed', before });
+    if (after) rows.push({ kind: 'added', after });
+  }
+  return rows;
+}
+
+export function diffBytecode(before: DiffSide, after: DiffSide): BytecodeDiff {
+  const a = disassemble(before.bytecode, before.evmVersion || DEFAULT_EVM_VERSION);
+  const b = disassemble(after.bytecode, after.evmVersion || DEFAULT_EVM_VERSION);
+  const edits: DiffEdit[] = diffSequences(a, b, sameInstruction);
+
+  const rows: DiffRow[] = [];
+  let deleted: Instruction[] = [];
+  let inserted: Instruction[] = [];
+  const flush = () => {
+    rows.push(...hunkRows(deleted, inserted));
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const edit of edits) {
+    if (edit.op === 'delete') {
+      deleted.push(a[edit.aIndex!]);
+    } else if (edit.op === 'insert') {
+      inserted.push(b[edit.bIndex!]);
+    } else {
+      flush();
+      rows.push({ kind: 'equal', before: a[edit.aIndex!], after: b[edit.bIndex!] });
+    }
+  }
+  flush();
+
+  const count = (kind: DiffRowKind) => rows.filter(row => row.kind === kind).length;
+  return {
+    rows,
+    before: totals(a),
+    after: totals(b),
+    added: count('added'),
+    removed: count('removed'),
+    changed: count('changed'),
+  };
+}
@@ -0,0 +1,145 @@
+// Control-flow graph of EVM bytecode: basic blocks and statically resolvable jumps
+import { InternalSourceMapEntry } from '../compiler/types';
+import { ParsedHuffFile } from '../language/symbols';
+import { findSourceMapEntry } from './debugSession';
+import { Instruction, disassemble } from './disassembler';
+import { DEFAULT_EVM_VERSION, EvmVersion } from './opcodes';
+
+const JUMPDEST = 0x5b;
+const JUMP = 0x56;
+const JUMPI = 0x57;
+// Instructions that end execution
+const TERMINATORS = new Set([0x00, 0xf3, 0xfd, 0xfe, 0xff]);
+
+export type EdgeKind = 'jump' | 'branch' | 'fallthrough';
+
+export interface CfgEdge {
+  from: number;
+  to: number;
+  // 'branch' is the taken side of a JUMPI, its other side is a fallthrough
+  kind: EdgeKind;
+}
+
+export interface BasicBlock {
+  // Program counter of the first instruction, also the block ID
+  start: number;
+  instructions: Instruction[];
+  // The block ends in a jump whose target is not a constant pushed right before it
+  dynamicJump: boolean;
+  // No edge leads here and it is not the entry block
+  unreachable: boolean;
+}
+
+export interface ControlFlowGraph {
+  blocks: BasicBlock[];
+  edges: CfgEdge[];
+}
+
+function isPush(instruction: Instruction): boolean {
+  return instruction.immediate !== undefined;
+}
+
+export function buildCfg(
+  bytecode: string,
+  evmVersion: EvmVersion = DEFAULT_EVM_VERSION
+): ControlFlowGraph {
+  const instructions = disassemble(bytecode, evmVersion);
+  const blocks: BasicBlock[] = [];
+  let current: BasicBlock | null = null;
+
+  // Split before every JUMPDEST and after every jump or terminator
+  for (const instruction of instructions) {
+    if (!current || instruction.opcode === JUMPDEST) {
+      if (!current || current.instructions.length > 0) {
+        current = {
+          start: instruction.pc,
+          instructions: [],
+          dynamicJump: false,
+          unreachable: false,
+        };
+        blocks.push(current);
+      }
+    }
+    current.instructions.push(instruction);
+    const opcode = instruction.opcode;
+    if (opcode === JUMP || opcode === JUMPI || TERMINATORS.has(opcode) || !instruction.info) {
+      current = null;
+    }
+  }
+
+  const jumpdests = new Set(
+    blocks.filter(block => block.instructions[0].opcode === JUMPDEST).map(block => block.start)
+  );
+  const edges: CfgEdge[] = [];
+  blocks.forEach((block, i) => {
+    const last = block.instructions[block.instructions.length - 1];
+    const previous = block.instructions[block.instructions.length - 2];
+    const next = blocks[i + 1];
+
+    if (last.opcode === JUMP || last.opcode === JUMPI) {
+      const target = previous && isPush(previous) ? parseInt(previous.immediate || '0', 16) : NaN;
+      if (jumpdests.has(target)) {
+        edges.push({
+          from: block.start,
+          to: target,
+          kind: last.opcode === JUMP ? 'jump' : 'branch',
+        });
+      } else {
+        block.dynamicJump = true;
+      }
+      if (last.opcode === JUMPI && next) {
+        edges.push({ from: block.start, to: next.start, kind: 'fallthrough' });
+      }
+    } else if (!TERMINATORS.has(last.opcode) && last.info && next) {
+      edges.push({ from: block.start, to: next.start, kind: 'fallthrough' });
+    }
+  });
+
+  const targets = new Set(edges.map(edge => edge.to));
+  // Dynamic jumps can land on any JUMPDEST
+  const anyJumpdest = blocks.some(block => block.dynamicJump);
+  blocks.forEach((block, i) => {
+    block.unreachable =
+      i > 0 && !targets.has(block.start) && !(anyJumpdest && jumpdests.has(block.start));
+  });
+
+  return { blocks, edges };
+}
+
+export interface BlockSource {
+  // Huff label the block starts at, if any
+  label?: string;
+  // Source range covered by the block's instructions
+  sourceStart?: number;
+  sourceEnd?: number;
+}
+
+// Label names and source ranges of blocks, from the source map of the compiled file
+export function blockSources(
+  cfg: ControlFlowGraph,
+  sourceMap: InternalSourceMapEntry[],
+  file: ParsedHuffFile
+): Map<number, BlockSource> {
+  const labels = file.symbols.filter(symbol => symbol.kind === 'label');
+  const result = new Map<number, BlockSource>();
+
+  for (const block of cfg.blocks) {
+    const info: BlockSource = {};
+    for (const instruction of block.instructions) {
+      const entry = findSourceMapEntry(sourceMap, instruction.pc);
+      if (!entry) continue;
+      info.sourceStart = Math.min(info.sourceStart ?? entry.source_start, entry.source_start);
+      info.sourceEnd = Math.max(info.sourceEnd ?? entry.source_end, entry.source_end);
+    }
+
+    // The JUMPDEST of a label maps to the label definition
+    const first = findSourceMapEntry(sourceMap, block.start);
+    if (first && block.instructions[0].opcode === JUMPDEST) {
+      info.label = labels.find(
+        label => label.start >= first.source_start && label.start < first.source_end
+      )?.name;
+    }
+    result.set(block.start, info);
+  }
+  return result;
+}
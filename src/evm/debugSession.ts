@@ -0,0 +1,111 @@
+// Step-by-step execution of a transaction, mapped back to the Huff source
+import { InternalSourceMapEntry } from '../compiler/types';
+import {
+  TransactionInput,
+  TransactionResult,
+  checkIntrinsicGas,
+  createInterpreter,
+  summarize,
+} from './execution';
+import { EvmInterpreter } from './interpreter';
+
+// 1-based line of a character offset in the source
+export function lineOfOffset(source: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+// Most specific source map entry covering the instruction at pc
+export function findSourceMapEntry(
+  sourceMap: InternalSourceMapEntry[],
+  pc: number
+): InternalSourceMapEntry | undefined {
+  const offset = pc * 2; // Source map offsets are in hex characters
+  let best: InternalSourceMapEntry | undefined;
+  for (const entry of sourceMap) {
+    if (entry.byte_offset > offset || entry.byte_offset + entry.length <= offset) continue;
+    // The shortest bytecode range wins, then the shortest source range
+    if (
+      !best ||
+      entry.length < best.length ||
+      (entry.length === best.length &&
+        entry.source_end - entry.source_start < best.source_end - best.source_start)
+    ) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+// Program counters to pause at for breakpoints on the given source lines:
+// the first instruction of every source map entry that starts on one of them
+export function breakpointPcs(
+  sourceMap: InternalSourceMapEntry[],
+  source: string,
+  lines: number[]
+): Set<number> {
+  const wanted = new Set(lines);
+  const result = new Set<number>();
+  if (wanted.size === 0) return result;
+  for (const entry of sourceMap) {
+    if (wanted.has(lineOfOffset(source, entry.source_start))) {
+      result.add(entry.byte_offset / 2);
+    }
+  }
+  return result;
+}
+
+export class DebugSession {
+  readonly input: TransactionInput;
+  readonly interpreter: EvmInterpreter;
+  private sourceMap: InternalSourceMapEntry[];
+
+  constructor(input: TransactionInput, sourceMap: InternalSourceMapEntry[] = []) {
+    checkIntrinsicGas(input);
+    this.input = input;
+    this.interpreter = createInterpreter(input);
+    this.sourceMap = sourceMap;
+  }
+
+  get done(): boolean {
+    return this.interpreter.done;
+  }
+
+  // Source map entry of the next instruction to execute
+  get location(): InternalSourceMapEntry | undefined {
+    return findSourceMapEntry(this.sourceMap, this.interpreter.pc);
+  }
+
+  // Transaction result once execution has finished
+  get result(): TransactionResult | null {
+    return this.done ? summarize(this.interpreter, this.input) : null;
+  }
+
+  // Execute a single instruction
+  stepInstruction() {
+    this.interpreter.step();
+  }
+
+  // Execute instructions until the source location changes
+  stepSource() {
+    const start = this.location;
+    if (!start) {
+      this.stepInstruction();
+      return;
+    }
+    this.interpreter.runUntil(pc => {
+      const entry = findSourceMapEntry(this.sourceMap, pc);
+      return (
+        !entry || entry.source_start !== start.source_start || entry.source_end !== start.source_end
+      );
+    });
+  }
+
+  // Run until a breakpoint is reached or execution finishes
+  continue(breakpoints: Set<number>) {
+    this.interpreter.runUntil(pc => breakpoints.has(pc));
+  }
+}
@@ -0,0 +1,56 @@
+// Bytecode disassembler
+import { DEFAULT_EVM_VERSION, EvmVersion, OpcodeInfo, getOpcodeTable } from './opcodes';
+
+export interface Instruction {
+  pc: number;
+  opcode: number;
+  // undefined for bytes that are not a valid opcode in the selected EVM version
+  info?: OpcodeInfo;
+  mnemonic: string;
+  // Immediate value as hex without 0x prefix (PUSH data)
+  immediate?: string;
+  size: number;
+  // PUSH data runs past the end of the code
+  truncated?: boolean;
+}
+
+export function stripHexPrefix(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+export function disassemble(
+  bytecode: string,
+  evmVersion: EvmVersion = DEFAULT_EVM_VERSION
+): Instruction[] {
+  const code = stripHexPrefix(bytecode);
+  const table = getOpcodeTable(evmVersion);
+  const result: Instruction[] = [];
+
+  let pc = 0;
+  const length = Math.floor(code.length / 2);
+  while (pc < length) {
+    const opcode = parseInt(code.slice(pc * 2, pc * 2 + 2), 16);
+    const info = table.get(opcode);
+    const mnemonic = info ? info.name : `UNKNOWN_0x${opcode.toString(16).padStart(2, '0')}`;
+
+    if (info && info.immediate > 0) {
+      const immediate = code.slice(pc * 2 + 2, (pc + 1 + info.immediate) * 2);
+      const truncated = immediate.length < info.immediate * 2;
+      result.push({
+        pc,
+        opcode,
+        info,
+        mnemonic,
+        immediate,
+        size: 1 + info.immediate,
+        truncated: truncated || undefined,
+      });
+      pc += 1 + info.immediate;
+    } else {
+      result.push({ pc, opcode, info, mnemonic, size: 1 });
+      pc += 1;
+    }
+  }
+
+  return result;
+}
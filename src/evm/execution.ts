@@ -0,0 +1,141 @@
+// Transaction-level execution on top of the interpreter: intrinsic gas, refunds and code deposit
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { stripHexPrefix } from './disassembler';
+import { EvmInterpreter, ExecutionStatus, StorageChange, intrinsicGas } from './interpreter';
+import { EvmVersion } from './opcodes';
+
+// Well-known local development addresses
+export const DEFAULT_CALLER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+export const DEFAULT_CONTRACT_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+export const DEFAULT_GAS_LIMIT = 30_000_000;
+
+export interface TransactionInput {
+  // Runtime code for calls, creation bytecode for deployments
+  code: string;
+  calldata: string;
+  callvalue: bigint;
+  caller: bigint;
+  address: bigint;
+  gasLimit: number;
+  storage: Map<bigint, bigint>;
+  balance: bigint;
+  evmVersion: EvmVersion;
+  isDeployment: boolean;
+}
+
+export interface TransactionLog {
+  topics: string[];
+  data: string;
+}
+
+export interface TransactionResult {
+  status: ExecutionStatus;
+  error?: string;
+  // Return or revert data; the deployed code for deployments
+  output: string;
+  // Total transaction gas after refunds
+  gasUsed: number;
+  intrinsicGas: number;
+  executionGas: number;
+  refund: number;
+  logs: TransactionLog[];
+  storageChanges: StorageChange[];
+  steps: number;
+}
+
+// Bytes of a hex string, with or without 0x; odd lengths are left-padded
+export function parseHex(hex: string): Uint8Array {
+  const clean = stripHexPrefix(hex.trim()).replace(/\s/g, '');
+  if (!/^[0-9a-fA-F]*$/.test(clean)) throw new Error(`Invalid hex data: ${hex}`);
+  return hexToBytes(clean.length % 2 === 0 ? clean : `0${clean}`);
+}
+
+// Decimal or 0x-prefixed hex quantity
+export function parseQuantity(text: string, label: string): bigint {
+  const value = text.trim();
+  if (!value) return 0n;
+  try {
+    const parsed = BigInt(value);
+    if (parsed < 0n) throw new Error();
+    return parsed;
+  } catch {
+    throw new Error(`Invalid ${label}: ${text}`);
+  }
+}
+
+export function parseAddress(text: string): bigint {
+  const hex = stripHexPrefix(text.trim());
+  if (!/^[0-9a-fA-F]{1,40}$/.test(hex)) throw new Error(`Invalid address: ${text}`);
+  return BigInt('0x' + hex);
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return '0x' + bytesToHex(bytes);
+}
+
+export function wordToHex(value: bigint, bytes = 32): string {
+  return '0x' + value.toString(16).padStart(bytes * 2, '0');
+}
+
+// Data of the transaction: the calldata of a call, or the creation code followed by the
+// constructor arguments of a deployment
+function transactionData(input: TransactionInput): Uint8Array {
+  const calldata = parseHex(input.calldata);
+  return input.isDeployment ? new Uint8Array([...parseHex(input.code), ...calldata]) : calldata;
+}
+
+function transactionIntrinsicGas(input: TransactionInput): number {
+  return intrinsicGas(transactionData(input), input.isDeployment);
+}
+
+export function createInterpreter(input: TransactionInput): EvmInterpreter {
+  const data = transactionData(input);
+  return new EvmInterpreter({
+    code: input.isDeployment ? data : parseHex(input.code),
+    calldata: input.isDeployment ? new Uint8Array(0) : data,
+    callvalue: input.callvalue,
+    caller: input.caller,
+    address: input.address,
+    gasLimit: input.gasLimit - intrinsicGas(data, input.isDeployment),
+    storage: input.storage,
+    balance: input.balance,
+    evmVersion: input.evmVersion,
+    isDeployment: input.isDeployment,
+  });
+}
+
+// Transaction result of an interpreter that has finished
+export function summarize(interpreter: EvmInterpreter, input: TransactionInput): TransactionResult {
+  const intrinsic = transactionIntrinsicGas(input);
+  // Includes the code deposit of deployments, charged by the interpreter
+  const executionGas = interpreter.gasUsed;
+  const refund = interpreter.effectiveRefund;
+  return {
+    status: interpreter.status,
+    error: interpreter.error,
+    output: toHex(interpreter.output),
+    gasUsed: intrinsic + executionGas - refund,
+    intrinsicGas: intrinsic,
+    executionGas,
+    refund,
+    logs: interpreter.logs.map(log => ({
+      topics: log.topics.map(topic => wordToHex(topic)),
+      data: toHex(log.data),
+    })),
+    storageChanges: interpreter.storageChanges(),
+    steps: interpreter.steps,
+  };
+}
+
+export function checkIntrinsicGas(input: TransactionInput) {
+  if (transactionIntrinsicGas(input) > input.gasLimit) {
+    throw new Error('Gas limit is below the intrinsic gas of the transaction');
+  }
+}
+
+export function executeTransaction(input: TransactionInput): TransactionResult {
+  checkIntrinsicGas(input);
+  const interpreter = createInterpreter(input);
+  interpreter.run();
+  return summarize(interpreter, input);
+}
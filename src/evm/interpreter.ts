@@ -0,0 +1,790 @@
+// In-browser EVM interpreter for running a single contract without a node
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha256';
+import { DEFAULT_EVM_VERSION, EvmVersion, OpcodeInfo, getOpcodeTable } from './opcodes';
+import { EIP170_RUNTIME_LIMIT } from './sizeLimits';
+
+const UINT256 = 1n << 256n;
+const MAX_UINT256 = UINT256 - 1n;
+const SIGN_BIT = 1n << 255n;
+const STACK_LIMIT = 1024;
+// Guard against endless loops
+const MAX_STEPS = 10_000_000;
+// Memory beyond this is treated as out of gas rather than allocated
+const MAX_MEMORY = 32 * 1024 * 1024;
+// Gas per byte of code stored by a deployment
+const CODE_DEPOSIT_GAS = 200;
+
+export interface BlockEnv {
+  number: bigint;
+  timestamp: bigint;
+  chainId: bigint;
+  baseFee: bigint;
+  blobBaseFee: bigint;
+  coinbase: bigint;
+  gasLimit: bigint;
+  prevrandao: bigint;
+}
+
+export const defaultBlock: BlockEnv = {
+  number: 1n,
+  timestamp: 1700000000n,
+  chainId: 31337n,
+  baseFee: 0n,
+  blobBaseFee: 1n,
+  coinbase: 0n,
+  gasLimit: 30000000n,
+  prevrandao: 0n,
+};
+
+export interface ExecutionEnv {
+  code: Uint8Array;
+  calldata: Uint8Array;
+  callvalue: bigint;
+  caller: bigint;
+  // Address of the executing contract
+  address: bigint;
+  gasLimit: number;
+  // Contract storage and balance before the call
+  storage: Map<bigint, bigint>;
+  balance: bigint;
+  evmVersion?: EvmVersion;
+  block?: Partial<BlockEnv>;
+  // Creation transaction: code is initcode and the output is the deployed code
+  isDeployment?: boolean;
+}
+
+export interface EvmLog {
+  topics: bigint[];
+  data: Uint8Array;
+}
+
+export type ExecutionStatus = 'running' | 'stopped' | 'returned' | 'reverted' | 'error';
+
+// Executed instruction, as reported by step()
+export interface StepInfo {
+  pc: number;
+  opcode: number;
+  name: string;
+  gasCost: number;
+}
+
+export interface StorageChange {
+  slot: bigint;
+  before: bigint;
+  after: bigint;
+}
+
+// Exceptional halt: consumes all remaining gas
+class EvmError extends Error {}
+
+const toSigned = (value: bigint) => (value & SIGN_BIT ? value - UINT256 : value);
+const toUnsigned = (value: bigint) => (value < 0n ? value + UINT256 : value) & MAX_UINT256;
+
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  return value;
+}
+
+export function bigIntToBytes(value: bigint, length = 32): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+// Gas for a memory of the given size in words
+const memoryCost = (words: number) => 3 * words + Math.floor((words * words) / 512);
+
+// Intrinsic transaction gas: base cost, calldata bytes and, for deployments, initcode words
+export function intrinsicGas(calldata: Uint8Array, isDeployment: boolean): number {
+  let gas = isDeployment ? 53000 : 21000;
+  for (const byte of calldata) gas += byte === 0 ? 4 : 16;
+  if (isDeployment) gas += 2 * Math.ceil(calldata.length / 32);
+  return gas;
+}
+
+export class EvmInterpreter {
+  readonly env: ExecutionEnv;
+  readonly block: BlockEnv;
+  pc = 0;
+  stack: bigint[] = [];
+  memory: Uint8Array = new Uint8Array(0);
+  gasRemaining: number;
+  refund = 0;
+  storage: Map<bigint, bigint>;
+  transientStorage = new Map<bigint, bigint>();
+  balance: bigint;
+  logs: EvmLog[] = [];
+  // Return data of the last call made by the contract
+  returnData: Uint8Array = new Uint8Array(0);
+  // Output of RETURN or REVERT
+  output: Uint8Array = new Uint8Array(0);
+  status: ExecutionStatus = 'running';
+  error?: string;
+  steps = 0;
+
+  private table: Map<number, OpcodeInfo>;
+  private jumpdests: Set<number>;
+  private warmSlots = new Set<bigint>();
+  private warmAddresses: Set<bigint>;
+
+  constructor(env: ExecutionEnv) {
+    this.env = env;
+    this.block = { ...defaultBlock, ...env.block };
+    this.table = getOpcodeTable(env.evmVersion || DEFAULT_EVM_VERSION);
+    this.gasRemaining = env.gasLimit;
+    this.storage = new Map(env.storage);
+    this.balance = env.balance + env.callvalue;
+    this.jumpdests = this.findJumpdests();
+    // The sender, the contract and the precompiles start warm (EIP-2929)
+    this.warmAddresses = new Set([env.caller, env.address]);
+    for (let i = 1n; i <= 10n; i++) this.warmAddresses.add(i);
+  }
+
+  get done(): boolean {
+    return this.status !== 'running';
+  }
+
+  // Memory size in bytes, always a multiple of 32
+  get memorySize(): number {
+    return this.memory.length;
+  }
+
+  get gasUsed(): number {
+    return this.env.gasLimit - this.gasRemaining;
+  }
+
+  // Refund applied at the end of the transaction, capped at a fifth of the gas used (EIP-3529)
+  get effectiveRefund(): number {
+    if (this.status === 'reverted' || this.status === 'error') return 0;
+    return Math.min(Math.max(this.refund, 0), Math.floor(this.gasUsed / 5));
+  }
+
+  // Slots whose value differs from the pre-state
+  storageChanges(): StorageChange[] {
+    const slots = new Set([...this.env.storage.keys(), ...this.storage.keys()]);
+    const changes: StorageChange[] = [];
+    for (const slot of slots) {
+      const before = this.env.storage.get(slot) || 0n;
+      const after = this.storage.get(slot) || 0n;
+      if (before !== after) changes.push({ slot, before, after });
+    }
+    return changes.sort((a, b) => (a.slot < b.slot ? -1 : 1));
+  }
+
+  // Instruction at the current program counter
+  currentInstruction(): OpcodeInfo | undefined {
+    return this.table.get(this.env.code[this.pc] ?? 0x00);
+  }
+
+  // Run until the contract halts or reaches the step limit
+  run(maxSteps = MAX_STEPS): ExecutionStatus {
+    return this.runUntil(() => false, maxSteps);
+  }
+
+  // Run like run(), but pause before any instruction where shouldPause returns true.
+  // The instruction at the current program counter always executes.
+  runUntil(shouldPause: (pc: number) => boolean, maxSteps = MAX_STEPS): ExecutionStatus {
+    let first = true;
+    while (!this.done) {
+      if (!first && shouldPause(this.pc)) break;
+      if (this.steps >= maxSteps) {
+        this.halt('error', `Stopped after ${maxSteps} steps`);
+        break;
+      }
+      this.step();
+      first = false;
+    }
+    return this.status;
+  }
+
+  // Execute one instruction
+  step(): StepInfo | null {
+    if (this.done) return null;
+
+    const pc = this.pc;
+    const gasBefore = this.gasRemaining;
+    // Running off the end of the code is an implicit STOP
+    const opcode = pc < this.env.code.length ? this.env.code[pc] : 0x00;
+    const info = this.table.get(opcode);
+    const name = info?.name || `UNKNOWN_0x${opcode.toString(16).padStart(2, '0')}`;
+
+    try {
+      if (!info) throw new EvmError(`Invalid opcode 0x${opcode.toString(16).padStart(2, '0')}`);
+      if (this.stack.length < info.stackIn.length) throw new EvmError(`Stack underflow in ${name}`);
+      if (this.stack.length - info.stackIn.length + info.stackOut.length > STACK_LIMIT) {
+        throw new EvmError(`Stack overflow in ${name}`);
+      }
+      this.useGas(info.gas);
+      this.pc = pc + 1 + info.immediate;
+      this.execute(info);
+    } catch (error) {
+      if (!(error instanceof EvmError)) throw error;
+      this.gasRemaining = 0;
+      this.halt('error', error.message);
+    }
+
+    this.steps++;
+    return { pc, opcode, name, gasCost: gasBefore - this.gasRemaining };
+  }
+
+  private halt(status: ExecutionStatus, error?: string) {
+    this.status = status;
+    this.error = error;
+    if (status === 'reverted' || status === 'error') {
+      // Reverted state changes are not visible to the caller
+      this.storage = new Map(this.env.storage);
+      this.transientStorage = new Map();
+      this.logs = [];
+      this.refund = 0;
+    }
+  }
+
+  private findJumpdests(): Set<number> {
+    const result = new Set<number>();
+    const code = this.env.code;
+    for (let pc = 0; pc < code.length; pc++) {
+      const info = this.table.get(code[pc]);
+      if (code[pc] === 0x5b) result.add(pc);
+      if (info) pc += info.immediate;
+    }
+    return result;
+  }
+
+  private useGas(amount: number) {
+    if (amount > this.gasRemaining) {
+      this.gasRemaining = 0;
+      throw new EvmError('Out of gas');
+    }
+    this.gasRemaining -= amount;
+  }
+
+  private pop(): bigint {
+    return this.stack.pop()!;
+  }
+
+  private push(value: bigint) {
+    this.stack.push(value & MAX_UINT256);
+  }
+
+  private popNumber(): number {
+    const value = this.pop();
+    // Offsets this large can never be paid for
+    return value > BigInt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : Number(value);
+  }
+
+  // Charge for and grow memory to cover [offset, offset + size)
+  private expandMemory(offset: number, size: number) {
+    if (size === 0) return;
+    const end = offset + size;
+    if (end > MAX_MEMORY) throw new EvmError('Out of gas (memory expansion)');
+    if (end <= this.memory.length) return;
+    const words = Math.ceil(end / 32);
+    this.useGas(memoryCost(words) - memoryCost(this.memory.length / 32));
+    const memory = new Uint8Array(words * 32);
+    memory.set(this.memory);
+    this.memory = memory;
+  }
+
+  private readMemory(offset: number, size: number): Uint8Array {
+    if (size === 0) return new Uint8Array(0);
+    this.expandMemory(offset, size);
+    return this.memory.slice(offset, offset + size);
+  }
+
+  private writeMemory(offset: number, data: Uint8Array) {
+    if (data.length === 0) return;
+    this.expandMemory(offset, data.length);
+    this.memory.set(data, offset);
+  }
+
+  // Slice of a buffer, zero-padded past its end
+  private static slicePadded(source: Uint8Array, offset: number, size: number): Uint8Array {
+    const result = new Uint8Array(size);
+    if (offset < source.length)
+      result.set(source.subarray(offset, Math.min(offset + size, source.length)));
+    return result;
+  }
+
+  // The code returned by a deployment is stored at 200 gas per byte, up to the EIP-170 limit
+  private depositCode(code: Uint8Array) {
+    if (code.length > EIP170_RUNTIME_LIMIT) {
+      throw new EvmError(
+        `Deployed code is ${code.length} bytes, over the ${EIP170_RUNTIME_LIMIT} byte limit (EIP-170)`
+      );
+    }
+    this.useGas(CODE_DEPOSIT_GAS * code.length);
+  }
+
+  private copyToMemory(source: Uint8Array) {
+    const destOffset = this.popNumber();
+    const offset = this.popNumber();
+    const size = this.popNumber();
+    this.useGas(3 * Math.ceil(size / 32));
+    // Charge for memory before allocating the copy
+    this.expandMemory(destOffset, size);
+    this.writeMemory(destOffset, EvmInterpreter.slicePadded(source, offset, size));
+  }
+
+  private accessAddress(address: bigint) {
+    if (!this.warmAddresses.has(address)) {
+      this.warmAddresses.add(address);
+      this.useGas(2500);
+    }
+  }
+
+  private accessSlot(slot: bigint): boolean {
+    if (this.warmSlots.has(slot)) return true;
+    this.warmSlots.add(slot);
+    return false;
+  }
+
+  private balanceOf(address: bigint): bigint {
+    return address === this.env.address ? this.balance : 0n;
+  }
+
+  private sstore(slot: bigint, value: bigint) {
+    if (this.gasRemaining <= 2300) throw new EvmError('Out of gas (SSTORE stipend)');
+    // The opcode's base gas of 100 is already charged
+    if (!this.accessSlot(slot)) this.useGas(2100);
+
+    const original = this.env.storage.get(slot) || 0n;
+    const current = this.storage.get(slot) || 0n;
+    if (current !== value) {
+      if (original === current) {
+        this.useGas(original === 0n ? 20000 - 100 : 2900 - 100);
+        if (original !== 0n && value === 0n) this.refund += 4800;
+      } else {
+        if (original !== 0n) {
+          if (current === 0n) this.refund -= 4800;
+          else if (value === 0n) this.refund += 4800;
+        }
+        if (original === value) this.refund += original === 0n ? 20000 - 100 : 2900 - 100;
+      }
+    }
+    this.storage.set(slot, value);
+  }
+
+  // Calls reach accounts without code; only the identity and sha256 precompiles run
+  private call(name: string) {
+    this.popNumber(); // gas
+    const address = this.pop() & ((1n << 160n) - 1n);
+    const value = name === 'CALL' || name === 'CALLCODE' ? this.pop() : 0n;
+    const argsOffset = this.popNumber();
+    const argsSize = this.popNumber();
+    const retOffset = this.popNumber();
+    const retSize = this.popNumber();
+
+    this.accessAddress(address);
+    if (value > 0n) this.useGas(9000);
+    const input = this.readMemory(argsOffset, argsSize);
+    this.expandMemory(retOffset, retSize);
+
+    let output: Uint8Array;
+    if (address === 4n) {
+      this.useGas(15 + 3 * Math.ceil(input.length / 32));
+      output = input;
+    } else if (address === 2n) {
+      this.useGas(60 + 12 * Math.ceil(input.length / 32));
+      output = sha256(input);
+    } else if (address >= 1n && address <= 10n) {
+      throw new EvmError(`Precompile 0x${address.toString(16)} is not supported`);
+    } else {
+      output = new Uint8Array(0);
+    }
+
+    if (value > 0n && name === 'CALL') {
+      if (value > this.balance) {
+        this.returnData = new Uint8Array(0);
+        this.push(0n);
+        return;
+      }
+      this.balance -= value;
+    }
+    this.returnData = output;
+    this.writeMemory(retOffset, output.subarray(0, retSize));
+    this.push(1n);
+  }
+
+  private execute(info: OpcodeInfo) {
+    const { name } = info;
+
+    if (name.startsWith('PUSH')) {
+      const start = this.pc - info.immediate;
+      this.push(bytesToBigInt(EvmInterpreter.slicePadded(this.env.code, start, info.immediate)));
+      return;
+    }
+    if (name.startsWith('DUP')) {
+      const n = info.code - 0x7f;
+      this.push(this.stack[this.stack.length - n]);
+      return;
+    }
+    if (name.startsWith('SWAP')) {
+      const n = info.code - 0x8f;
+      const top = this.stack.length - 1;
+      [this.stack[top], this.stack[top - n]] = [this.stack[top - n], this.stack[top]];
+      return;
+    }
+    if (name.startsWith('LOG')) {
+      const topicCount = info.code - 0xa0;
+      const offset = this.popNumber();
+      const size = this.popNumber();
+      const topics = Array.from({ length: topicCount }, () => this.pop());
+      this.useGas(8 * size);
+      this.logs.push({ topics, data: this.readMemory(offset, size) });
+      return;
+    }
+
+    switch (name) {
+      case 'STOP':
+        this.halt('stopped');
+        return;
+      case 'ADD':
+        this.push(this.pop() + this.pop());
+        return;
+      case 'MUL':
+        this.push(this.pop() * this.pop());
+        return;
+      case 'SUB': {
+        const a = this.pop();
+        this.push(a - this.pop() + UINT256);
+        return;
+      }
+      case 'DIV': {
+        const a = this.pop();
+        const b = this.pop();
+        this.push(b === 0n ? 0n : a / b);
+        return;
+      }
+      case 'SDIV': {
+        const a = toSigned(this.pop());
+        const b = toSigned(this.pop());
+        this.push(b === 0n ? 0n : toUnsigned(a / b));
+        return;
+      }
+      case 'MOD': {
+        const a = this.pop();
+        const b = this.pop();
+        this.push(b === 0n ? 0n : a % b);
+        return;
+      }
+      case 'SMOD': {
+        const a = toSigned(this.pop());
+        const b = toSigned(this.pop());
+        this.push(b === 0n ? 0n : toUnsigned(a % b));
+        return;
+      }
+      case 'ADDMOD': {
+        const a = this.pop();
+        const b = this.pop();
+        const n = this.pop();
+        this.push(n === 0n ? 0n : (a + b) % n);
+        return;
+      }
+      case 'MULMOD': {
+        const a = this.pop();
+        const b = this.pop();
+        const n = this.pop();
+        this.push(n === 0n ? 0n : (a * b) % n);
+        return;
+      }
+      case 'EXP': {
+        let base = this.pop();
+        let exponent = this.pop();
+        if (exponent > 0n) this.useGas(50 * Math.ceil(exponent.toString(16).length / 2));
+        let result = 1n;
+        while (exponent > 0n) {
+          if (exponent & 1n) result = (result * base) & MAX_UINT256;
+          base = (base * base) & MAX_UINT256;
+          exponent >>= 1n;
+        }
+        this.push(result);
+        return;
+      }
+      case 'SIGNEXTEND': {
+        const b = this.pop();
+        const x = this.pop();
+        if (b >= 31n) {
+          this.push(x);
+        } else {
+          const bit = b * 8n + 7n;
+          const mask = (1n << bit) - 1n;
+          this.push(x & (1n << bit) ? x | (MAX_UINT256 - mask) : x & mask);
+        }
+        return;
+      }
+      case 'LT':
+        this.push(this.pop() < this.pop() ? 1n : 0n);
+        return;
+      case 'GT':
+        this.push(this.pop() > this.pop() ? 1n : 0n);
+        return;
+      case 'SLT':
+        this.push(toSigned(this.pop()) < toSigned(this.pop()) ? 1n : 0n);
+        return;
+      case 'SGT':
+        this.push(toSigned(this.pop()) > toSigned(this.pop()) ? 1n : 0n);
+        return;
+      case 'EQ':
+        this.push(this.pop() === this.pop() ? 1n : 0n);
+        return;
+      case 'ISZERO':
+        this.push(this.pop() === 0n ? 1n : 0n);
+        return;
+      case 'AND':
+        this.push(this.pop() & this.pop());
+        return;
+      case 'OR':
+        this.push(this.pop() | this.pop());
+        return;
+      case 'XOR':
+        this.push(this.pop() ^ this.pop());
+        return;
+      case 'NOT':
+        this.push(MAX_UINT256 ^ this.pop());
+        return;
+      case 'BYTE': {
+        const i = this.pop();
+        const x = this.pop();
+        this.push(i >= 32n ? 0n : (x >> (8n * (31n - i))) & 0xffn);
+        return;
+      }
+      case 'SHL': {
+        const shift = this.pop();
+        const value = this.pop();
+        this.push(shift >= 256n ? 0n : value << shift);
+        return;
+      }
+      case 'SHR': {
+        const shift = this.pop();
+        const value = this.pop();
+        this.push(shift >= 256n ? 0n : value >> shift);
+        return;
+      }
+      case 'SAR': {
+        const shift = this.pop();
+        const value = toSigned(this.pop());
+        this.push(toUnsigned(shift >= 256n ? (value < 0n ? -1n : 0n) : value >> shift));
+        return;
+      }
+      case 'CLZ': {
+        const value = this.pop();
+        this.push(BigInt(value === 0n ? 256 : 256 - value.toString(2).length));
+        return;
+      }
+      case 'SHA3': {
+        const offset = this.popNumber();
+        const size = this.popNumber();
+        this.useGas(6 * Math.ceil(size / 32));
+        this.push(bytesToBigInt(keccak_256(this.readMemory(offset, size))));
+        return;
+      }
+      case 'ADDRESS':
+        this.push(this.env.address);
+        return;
+      case 'BALANCE': {
+        const address = this.pop() & ((1n << 160n) - 1n);
+        this.accessAddress(address);
+        this.push(this.balanceOf(address));
+        return;
+      }
+      case 'ORIGIN':
+      case 'CALLER':
+        this.push(this.env.caller);
+        return;
+      case 'CALLVALUE':
+        this.push(this.env.callvalue);
+        return;
+      case 'CALLDATALOAD':
+        this.push(
+          bytesToBigInt(EvmInterpreter.slicePadded(this.env.calldata, this.popNumber(), 32))
+        );
+        return;
+      case 'CALLDATASIZE':
+        this.push(BigInt(this.env.calldata.length));
+        return;
+      case 'CALLDATACOPY':
+        this.copyToMemory(this.env.calldata);
+        return;
+      case 'CODESIZE':
+        this.push(BigInt(this.env.code.length));
+        return;
+      case 'CODECOPY':
+        this.copyToMemory(this.env.code);
+        return;
+      case 'GASPRICE':
+        this.push(this.block.baseFee);
+        return;
+      case 'EXTCODESIZE': {
+        const address = this.pop() & ((1n << 160n) - 1n);
+        this.accessAddress(address);
+        this.push(address === this.env.address ? BigInt(this.env.code.length) : 0n);
+        return;
+      }
+      case 'EXTCODECOPY': {
+        const address = this.pop() & ((1n << 160n) - 1n);
+        this.accessAddress(address);
+        this.copyToMemory(address === this.env.address ? this.env.code : new Uint8Array(0));
+        return;
+      }
+      case 'RETURNDATASIZE':
+        this.push(BigInt(this.returnData.length));
+        return;
+      case 'RETURNDATACOPY': {
+        const destOffset = this.popNumber();
+        const offset = this.popNumber();
+        const size = this.popNumber();
+        if (offset + size > this.returnData.length) throw new EvmError('Return data out of bounds');
+        this.useGas(3 * Math.ceil(size / 32));
+        this.writeMemory(destOffset, this.returnData.slice(offset, offset + size));
+        return;
+      }
+      case 'EXTCODEHASH': {
+        const address = this.pop() & ((1n << 160n) - 1n);
+        this.accessAddress(address);
+        this.push(address === this.env.address ? bytesToBigInt(keccak_256(this.env.code)) : 0n);
+        return;
+      }
+      case 'BLOCKHASH':
+        this.pop();
+        this.push(0n);
+        return;
+      case 'COINBASE':
+        this.push(this.block.coinbase);
+        return;
+      case 'TIMESTAMP':
+        this.push(this.block.timestamp);
+        return;
+      case 'NUMBER':
+        this.push(this.block.number);
+        return;
+      case 'DIFFICULTY':
+      case 'PREVRANDAO':
+        this.push(this.block.prevrandao);
+        return;
+      case 'GASLIMIT':
+        this.push(this.block.gasLimit);
+        return;
+      case 'CHAINID':
+        this.push(this.block.chainId);
+        return;
+      case 'SELFBALANCE':
+        this.push(this.balance);
+        return;
+      case 'BASEFEE':
+        this.push(this.block.baseFee);
+        return;
+      case 'BLOBHASH':
+        this.pop();
+        this.push(0n);
+        return;
+      case 'BLOBBASEFEE':
+        this.push(this.block.blobBaseFee);
+        return;
+      case 'POP':
+        this.pop();
+        return;
+      case 'MLOAD':
+        this.push(bytesToBigInt(this.readMemory(this.popNumber(), 32)));
+        return;
+      case 'MSTORE': {
+        const offset = this.popNumber();
+        this.writeMemory(offset, bigIntToBytes(this.pop()));
+        return;
+      }
+      case 'MSTORE8': {
+        const offset = this.popNumber();
+        this.writeMemory(offset, new Uint8Array([Number(this.pop() & 0xffn)]));
+        return;
+      }
+      case 'SLOAD': {
+        const slot = this.pop();
+        if (!this.accessSlot(slot)) this.useGas(2000);
+        this.push(this.storage.get(slot) || 0n);
+        return;
+      }
+      case 'SSTORE': {
+        const slot = this.pop();
+        this.sstore(slot, this.pop());
+        return;
+      }
+      case 'JUMP': {
+        const destination = this.popNumber();
+        if (!this.jumpdests.has(destination)) throw new EvmError(`Invalid jump to ${destination}`);
+        this.pc = destination;
+        return;
+      }
+      case 'JUMPI': {
+        const destination = this.popNumber();
+        if (this.pop() !== 0n) {
+          if (!this.jumpdests.has(destination))
+            throw new EvmError(`Invalid jump to ${destination}`);
+          this.pc = destination;
+        }
+        return;
+      }
+      case 'PC':
+        this.push(BigInt(this.pc - 1));
+        return;
+      case 'MSIZE':
+        this.push(BigInt(this.memory.length));
+        return;
+      case 'GAS':
+        this.push(BigInt(this.gasRemaining));
+        return;
+      case 'JUMPDEST':
+        return;
+      case 'TLOAD':
+        this.push(this.transientStorage.get(this.pop()) || 0n);
+        return;
+      case 'TSTORE': {
+        const slot = this.pop();
+        this.transientStorage.set(slot, this.pop());
+        return;
+      }
+      case 'MCOPY': {
+        const destOffset = this.popNumber();
+        const offset = this.popNumber();
+        const size = this.popNumber();
+        this.useGas(3 * Math.ceil(size / 32));
+        this.expandMemory(Math.max(destOffset, offset), size);
+        this.writeMemory(destOffset, this.readMemory(offset, size));
+        return;
+      }
+      case 'PUSH0':
+        this.push(0n);
+        return;
+      case 'CALL':
+      case 'CALLCODE':
+      case 'DELEGATECALL':
+      case 'STATICCALL':
+        this.call(name);
+        return;
+      case 'RETURN':
+      case 'REVERT': {
+        const offset = this.popNumber();
+        const size = this.popNumber();
+        const output = this.readMemory(offset, size);
+        if (name === 'RETURN' && this.env.isDeployment) this.depositCode(output);
+        this.output = output;
+        this.halt(name === 'RETURN' ? 'returned' : 'reverted');
+        return;
+      }
+      case 'SELFDESTRUCT':
+        this.pop();
+        this.halt('stopped');
+        return;
+      case 'INVALID':
+        throw new EvmError('INVALID instruction');
+      case 'CREATE':
+      case 'CREATE2':
+        throw new EvmError(`${name} is not supported by the local EVM`);
+      default:
+        throw new EvmError(`${name} is not implemented`);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// Attribution of bytecode size and static gas to the macros that generated it, via the source map.
+// Source map offsets refer to the compiled file, so code expanded from included files is
+// attributed to the macro that invoked it.
+import { InternalSourceMapEntry } from '../compiler/types';
+import { HuffSymbol, ParsedHuffFile, findEnclosingMacro, isMacroLike } from '../language/symbols';
+import { findSourceMapEntry } from './debugSession';
+import { Instruction, disassemble } from './disassembler';
+import { DEFAULT_EVM_VERSION, EvmVersion } from './opcodes';
+
+export interface MacroCost {
+  // Macro the bytes are attributed to
+  macro: string;
+  // Macro containing the call site, for call sites
+  caller?: string;
+  // Source offset of the definition or invocation
+  sourceStart: number;
+  bytes: number;
+  // Sum of the base gas of the instructions, without dynamic costs
+  gas: number;
+  instructions: number;
+  // Times the code appears in the bytecode: how often a definition is expanded, or how often a
+  // call site is, when its caller is itself inlined repeatedly
+  expansions: number;
+}
+
+export interface MacroReport {
+  totalBytes: number;
+  instructions: number;
+  pushDataBytes: number;
+  // Bytes without a source map entry in a macro of the compiled file
+  unattributedBytes: number;
+  // Bytes written directly in each macro body
+  definitions: MacroCost[];
+  // Bytes generated by each macro invocation, including everything it expands to
+  callSites: MacroCost[];
+}
+
+function addInstruction(cost: MacroCost, instruction: Instruction) {
+  cost.bytes += instruction.size;
+  cost.gas += instruction.info?.gas || 0;
+  cost.instructions++;
+}
+
+export function buildMacroReport(
+  bytecode: string,
+  sourceMap: InternalSourceMapEntry[],
+  file: ParsedHuffFile,
+  evmVersion: EvmVersion = DEFAULT_EVM_VERSION
+): MacroReport {
+  const instructions = disassemble(bytecode, evmVersion);
+  const macros = new Map(
+    file.symbols.filter(isMacroLike).map(symbol => [symbol.name, symbol] as const)
+  );
+  const report: MacroReport = {
+    totalBytes: 0,
+    instructions: instructions.length,
+    pushDataBytes: 0,
+    unattributedBytes: 0,
+    definitions: [],
+    callSites: [],
+  };
+
+  const definitions = new Map<string, MacroCost>();
+  const definitionCost = (symbol: HuffSymbol) => {
+    let cost = definitions.get(symbol.name);
+    if (!cost) {
+      cost = {
+        macro: symbol.name,
+        sourceStart: symbol.nameStart,
+        bytes: 0,
+        gas: 0,
+        instructions: 0,
+        expansions: 0,
+      };
+      definitions.set(symbol.name, cost);
+    }
+    return cost;
+  };
+
+  // Source map entries that start at a macro invocation cover its whole expansion
+  const invocations = new Map(
+    file.references
+      .filter(reference => macros.has(reference.name))
+      .map(reference => [reference.start, reference] as const)
+  );
+  // Attribute each instruction to the macro body it was written in, not to the invocation
+  const bodyEntries = sourceMap.filter(entry => !invocations.has(entry.source_start));
+
+  for (const instruction of instructions) {
+    report.totalBytes += instruction.size;
+    report.pushDataBytes += instruction.size - 1;
+    const entry =
+      findSourceMapEntry(bodyEntries, instruction.pc) ||
+      findSourceMapEntry(sourceMap, instruction.pc);
+    const symbol = entry && findEnclosingMacro(file.symbols, entry.source_start);
+    if (symbol) addInstruction(definitionCost(symbol), instruction);
+    else report.unattributedBytes += instruction.size;
+  }
+
+  const instructionIndex = new Map(instructions.map((instruction, i) => [instruction.pc, i]));
+  const callSites = new Map<number, MacroCost>();
+  const seen = new Set<string>();
+  for (const entry of sourceMap) {
+    const reference = invocations.get(entry.source_start);
+    // Nested entries of the same expansion are counted once
+    const key = `${entry.byte_offset}:${entry.source_start}`;
+    if (!reference || seen.has(key)) continue;
+    seen.add(key);
+
+    let cost = callSites.get(reference.start);
+    if (!cost) {
+      cost = {
+        macro: reference.name,
+        caller: findEnclosingMacro(file.symbols, reference.start)?.name,
+        sourceStart: reference.start,
+        bytes: 0,
+        gas: 0,
+        instructions: 0,
+        expansions: 0,
+      };
+      callSites.set(reference.start, cost);
+    }
+    cost.expansions++;
+    const endPc = (entry.byte_offset + entry.length) / 2;
+    let index = instructionIndex.get(entry.byte_offset / 2);
+    if (index === undefined) continue;
+    for (; index < instructions.length && instructions[index].pc < endPc; index++) {
+      addInstruction(cost, instructions[index]);
+    }
+  }
+
+  // Definitions are expanded once per call site expansion; MAIN and other entry points once
+  for (const cost of definitions.values()) {
+    const sites = [...callSites.values()].filter(site => site.macro === cost.macro);
+    cost.expansions = sites.reduce((total, site) => total + site.expansions, 0) || 1;
+  }
+  report.definitions = [...definitions.values()];
+  report.callSites = [...callSites.values()];
+  return report;
+}
@@ -0,0 +1,441 @@
+// EVM opcode table with stack effects, base gas and the fork that introduced each opcode
+
+// Hard forks in activation order
+export const EVM_FORKS = [
+  'frontier',
+  'homestead',
+  'byzantium',
+  'constantinople',
+  'petersburg',
+  'istanbul',
+  'berlin',
+  'london',
+  'paris',
+  'shanghai',
+  'cancun',
+  'prague',
+  'osaka',
+] as const;
+
+export type EvmVersion = (typeof EVM_FORKS)[number];
+
+// Versions the huff-neo compiler can target
+export const EVM_VERSIONS: EvmVersion[] = ['paris', 'shanghai', 'cancun', 'prague', 'osaka'];
+
+export const DEFAULT_EVM_VERSION: EvmVersion = 'cancun';
+
+export interface OpcodeInfo {
+  code: number;
+  name: string;
+  // Number of immediate bytes following the opcode (PUSH1-PUSH32)
+  immediate: number;
+  stackIn: string[];
+  stackOut: string[];
+  gas: number;
+  since: EvmVersion;
+  description: string;
+}
+
+function op(
+  code: number,
+  name: string,
+  since: EvmVersion,
+  gas: number,
+  stackIn: string[],
+  stackOut: string[],
+  description: string,
+  immediate: number = 0
+): OpcodeInfo {
+  return { code, name, immediate, stackIn, stackOut, gas, since, description };
+}
+
+const ordinal = (n: number) => (n === 1 ? '1st' : n === 2 ? '2nd' : n === 3 ? '3rd' : `${n}th`);
+
+export const OPCODES: OpcodeInfo[] = [
+  op(0x00, 'STOP', 'frontier', 0, [], [], 'Halts execution'),
+  op(0x01, 'ADD', 'frontier', 3, ['a', 'b'], ['a + b'], 'Addition modulo 2^256'),
+  op(0x02, 'MUL', 'frontier', 5, ['a', 'b'], ['a * b'], 'Multiplication modulo 2^256'),
+  op(0x03, 'SUB', 'frontier', 3, ['a', 'b'], ['a - b'], 'Subtraction modulo 2^256'),
+  op(0x04, 'DIV', 'frontier', 5, ['a', 'b'], ['a / b'], 'Unsigned integer division, 0 if b is 0'),
+  op(0x05, 'SDIV', 'frontier', 5, ['a', 'b'], ['a / b'], 'Signed integer division, 0 if b is 0'),
+  op(0x06, 'MOD', 'frontier', 5, ['a', 'b'], ['a % b'], 'Unsigned modulo, 0 if b is 0'),
+  op(0x07, 'SMOD', 'frontier', 5, ['a', 'b'], ['a % b'], 'Signed modulo, 0 if b is 0'),
+  op(0x08, 'ADDMOD', 'frontier', 8, ['a', 'b', 'N'], ['(a + b) % N'], 'Addition modulo N'),
+  op(0x09, 'MULMOD', 'frontier', 8, ['a', 'b', 'N'], ['(a * b) % N'], 'Multiplication modulo N'),
+  op(0x0a, 'EXP', 'frontier', 10, ['a', 'exponent'], ['a ** exponent'], 'Exponentiation'),
+  op(
+    0x0b,
+    'SIGNEXTEND',
+    'frontier',
+    5,
+    ['b', 'x'],
+    ['y'],
+    'Extends the sign of a (b+1)-byte integer'
+  ),
+  op(0x10, 'LT', 'frontier', 3, ['a', 'b'], ['a < b'], 'Unsigned less-than comparison'),
+  op(0x11, 'GT', 'frontier', 3, ['a', 'b'], ['a > b'], 'Unsigned greater-than comparison'),
+  op(0x12, 'SLT', 'frontier', 3, ['a', 'b'], ['a < b'], 'Signed less-than comparison'),
+  op(0x13, 'SGT', 'frontier', 3, ['a', 'b'], ['a > b'], 'Signed greater-than comparison'),
+  op(0x14, 'EQ', 'frontier', 3, ['a', 'b'], ['a == b'], 'Equality comparison'),
+  op(0x15, 'ISZERO', 'frontier', 3, ['a'], ['a == 0'], 'Is-zero comparison'),
+  op(0x16, 'AND', 'frontier', 3, ['a', 'b'], ['a & b'], 'Bitwise AND'),
+  op(0x17, 'OR', 'frontier', 3, ['a', 'b'], ['a | b'], 'Bitwise OR'),
+  op(0x18, 'XOR', 'frontier', 3, ['a', 'b'], ['a ^ b'], 'Bitwise XOR'),
+  op(0x19, 'NOT', 'frontier', 3, ['a'], ['~a'], 'Bitwise NOT'),
+  op(
+    0x1a,
+    'BYTE',
+    'frontier',
+    3,
+    ['i', 'x'],
+    ['y'],
+    'Retrieves the i-th byte of x, counting from the most significant'
+  ),
+  op(0x1b, 'SHL', 'constantinople', 3, ['shift', 'value'], ['value << shift'], 'Left shift'),
+  op(
+    0x1c,
+    'SHR',
+    'constantinople',
+    3,
+    ['shift', 'value'],
+    ['value >> shift'],
+    'Logical right shift'
+  ),
+  op(
+    0x1d,
+    'SAR',
+    'constantinople',
+    3,
+    ['shift', 'value'],
+    ['value >> shift'],
+    'Arithmetic (signed) right shift'
+  ),
+  op(0x1e, 'CLZ', 'osaka', 5, ['x'], ['zeros'], 'Counts the leading zero bits of x'),
+  op(
+    0x20,
+    'SHA3',
+    'frontier',
+    30,
+    ['offset', 'size'],
+    ['hash'],
+    'Keccak-256 hash of a memory region'
+  ),
+  op(0x30, 'ADDRESS', 'frontier', 2, [], ['address'], 'Address of the currently executing account'),
+  op(
+    0x31,
+    'BALANCE',
+    'frontier',
+    100,
+    ['address'],
+    ['balance'],
+    'Balance of the given account in wei'
+  ),
+  op(0x32, 'ORIGIN', 'frontier', 2, [], ['address'], 'Address of the transaction sender'),
+  op(0x33, 'CALLER', 'frontier', 2, [], ['address'], 'Address of the direct caller'),
+  op(0x34, 'CALLVALUE', 'frontier', 2, [], ['value'], 'Wei sent with the current call'),
+  op(
+    0x35,
+    'CALLDATALOAD',
+    'frontier',
+    3,
+    ['i'],
+    ['data[i]'],
+    'Reads 32 bytes of calldata at offset i'
+  ),
+  op(0x36, 'CALLDATASIZE', 'frontier', 2, [], ['size'], 'Size of the calldata in bytes'),
+  op(
+    0x37,
+    'CALLDATACOPY',
+    'frontier',
+    3,
+    ['destOffset', 'offset', 'size'],
+    [],
+    'Copies calldata to memory'
+  ),
+  op(
+    0x38,
+    'CODESIZE',
+    'frontier',
+    2,
+    [],
+    ['size'],
+    'Size of the code running in the current environment'
+  ),
+  op(
+    0x39,
+    'CODECOPY',
+    'frontier',
+    3,
+    ['destOffset', 'offset', 'size'],
+    [],
+    'Copies the running code to memory'
+  ),
+  op(0x3a, 'GASPRICE', 'frontier', 2, [], ['price'], 'Gas price of the transaction'),
+  op(0x3b, 'EXTCODESIZE', 'frontier', 100, ['address'], ['size'], 'Size of the code of an account'),
+  op(
+    0x3c,
+    'EXTCODECOPY',
+    'frontier',
+    100,
+    ['address', 'destOffset', 'offset', 'size'],
+    [],
+    'Copies the code of an account to memory'
+  ),
+  op(
+    0x3d,
+    'RETURNDATASIZE',
+    'byzantium',
+    2,
+    [],
+    ['size'],
+    'Size of the return data of the last call'
+  ),
+  op(
+    0x3e,
+    'RETURNDATACOPY',
+    'byzantium',
+    3,
+    ['destOffset', 'offset', 'size'],
+    [],
+    'Copies the return data of the last call to memory'
+  ),
+  op(
+    0x3f,
+    'EXTCODEHASH',
+    'constantinople',
+    100,
+    ['address'],
+    ['hash'],
+    'Keccak-256 hash of the code of an account'
+  ),
+  op(
+    0x40,
+    'BLOCKHASH',
+    'frontier',
+    20,
+    ['blockNumber'],
+    ['hash'],
+    'Hash of one of the 256 most recent blocks'
+  ),
+  op(0x41, 'COINBASE', 'frontier', 2, [], ['address'], "Block proposer's address"),
+  op(0x42, 'TIMESTAMP', 'frontier', 2, [], ['timestamp'], 'Timestamp of the block'),
+  op(0x43, 'NUMBER', 'frontier', 2, [], ['blockNumber'], 'Number of the block'),
+  op(0x44, 'DIFFICULTY', 'frontier', 2, [], ['difficulty'], 'Difficulty of the block'),
+  op(
+    0x44,
+    'PREVRANDAO',
+    'paris',
+    2,
+    [],
+    ['prevRandao'],
+    'Randomness from the previous beacon block'
+  ),
+  op(0x45, 'GASLIMIT', 'frontier', 2, [], ['gasLimit'], 'Gas limit of the block'),
+  op(0x46, 'CHAINID', 'istanbul', 2, [], ['chainId'], 'Chain id of the network'),
+  op(
+    0x47,
+    'SELFBALANCE',
+    'istanbul',
+    5,
+    [],
+    ['balance'],
+    'Balance of the executing account in wei'
+  ),
+  op(0x48, 'BASEFEE', 'london', 2, [], ['baseFee'], 'Base fee of the block'),
+  op(
+    0x49,
+    'BLOBHASH',
+    'cancun',
+    3,
+    ['index'],
+    ['versionedHash'],
+    'Versioned hash of a blob of the transaction'
+  ),
+  op(0x4a, 'BLOBBASEFEE', 'cancun', 2, [], ['blobBaseFee'], 'Blob base fee of the block'),
+  op(0x50, 'POP', 'frontier', 2, ['a'], [], 'Removes the top stack item'),
+  op(0x51, 'MLOAD', 'frontier', 3, ['offset'], ['value'], 'Loads a word from memory'),
+  op(0x52, 'MSTORE', 'frontier', 3, ['offset', 'value'], [], 'Stores a word to memory'),
+  op(
+    0x53,
+    'MSTORE8',
+    'frontier',
+    3,
+    ['offset', 'value'],
+    [],
+    'Stores the lowest byte of value to memory'
+  ),
+  op(0x54, 'SLOAD', 'frontier', 100, ['key'], ['value'], 'Loads a word from storage'),
+  op(0x55, 'SSTORE', 'frontier', 100, ['key', 'value'], [], 'Stores a word to storage'),
+  op(0x56, 'JUMP', 'frontier', 8, ['counter'], [], 'Sets the program counter to a JUMPDEST'),
+  op(0x57, 'JUMPI', 'frontier', 10, ['counter', 'b'], [], 'Jumps to counter if b is not zero'),
+  op(0x58, 'PC', 'frontier', 2, [], ['counter'], 'Program counter of this instruction'),
+  op(0x59, 'MSIZE', 'frontier', 2, [], ['size'], 'Size of active memory in bytes'),
+  op(0x5a, 'GAS', 'frontier', 2, [], ['gas'], 'Remaining gas after this instruction'),
+  op(0x5b, 'JUMPDEST', 'frontier', 1, [], [], 'Marks a valid jump destination'),
+  op(0x5c, 'TLOAD', 'cancun', 100, ['key'], ['value'], 'Loads a word from transient storage'),
+  op(0x5d, 'TSTORE', 'cancun', 100, ['key', 'value'], [], 'Stores a word to transient storage'),
+  op(0x5e, 'MCOPY', 'cancun', 3, ['destOffset', 'offset', 'size'], [], 'Copies a memory region'),
+  op(0x5f, 'PUSH0', 'shanghai', 2, [], ['0'], 'Pushes the constant 0'),
+  ...Array.from({ length: 32 }, (_, i) =>
+    op(
+      0x60 + i,
+      `PUSH${i + 1}`,
+      'frontier',
+      3,
+      [],
+      ['value'],
+      `Pushes a ${i + 1}-byte value`,
+      i + 1
+    )
+  ),
+  ...Array.from({ length: 16 }, (_, i) => {
+    const items = Array.from({ length: i + 1 }, (_, j) => (j === i ? 'value' : `a${j}`));
+    return op(
+      0x80 + i,
+      `DUP${i + 1}`,
+      'frontier',
+      3,
+      items,
+      ['value', ...items],
+      `Duplicates the ${ordinal(i + 1)} stack item`
+    );
+  }),
+  ...Array.from({ length: 16 }, (_, i) => {
+    const middle = Array.from({ length: i }, (_, j) => `a${j + 1}`);
+    return op(
+      0x90 + i,
+      `SWAP${i + 1}`,
+      'frontier',
+      3,
+      ['a', ...middle, 'b'],
+      ['b', ...middle, 'a'],
+      `Exchanges the 1st and ${ordinal(i + 2)} stack items`
+    );
+  }),
+  ...Array.from({ length: 5 }, (_, i) =>
+    op(
+      0xa0 + i,
+      `LOG${i}`,
+      'frontier',
+      375 * (i + 1),
+      ['offset', 'size', ...Array.from({ length: i }, (_, j) => `topic${j}`)],
+      [],
+      `Appends a log record with ${i} topic${i === 1 ? '' : 's'}`
+    )
+  ),
+  op(
+    0xf0,
+    'CREATE',
+    'frontier',
+    32000,
+    ['value', 'offset', 'size'],
+    ['address'],
+    'Creates a new account with the given initcode'
+  ),
+  op(
+    0xf1,
+    'CALL',
+    'frontier',
+    100,
+    ['gas', 'address', 'value', 'argsOffset', 'argsSize', 'retOffset', 'retSize'],
+    ['success'],
+    'Message-call into an account'
+  ),
+  op(
+    0xf2,
+    'CALLCODE',
+    'frontier',
+    100,
+    ['gas', 'address', 'value', 'argsOffset', 'argsSize', 'retOffset', 'retSize'],
+    ['success'],
+    "Message-call with another account's code"
+  ),
+  op(
+    0xf3,
+    'RETURN',
+    'frontier',
+    0,
+    ['offset', 'size'],
+    [],
+    'Halts execution returning output data'
+  ),
+  op(
+    0xf4,
+    'DELEGATECALL',
+    'homestead',
+    100,
+    ['gas', 'address', 'argsOffset', 'argsSize', 'retOffset', 'retSize'],
+    ['success'],
+    "Message-call with another account's code, keeping sender and value"
+  ),
+  op(
+    0xf5,
+    'CREATE2',
+    'constantinople',
+    32000,
+    ['value', 'offset', 'size', 'salt'],
+    ['address'],
+    'Creates a new account at a deterministic address'
+  ),
+  op(
+    0xfa,
+    'STATICCALL',
+    'byzantium',
+    100,
+    ['gas', 'address', 'argsOffset', 'argsSize', 'retOffset', 'retSize'],
+    ['success'],
+    'Message-call that cannot modify state'
+  ),
+  op(
+    0xfd,
+    'REVERT',
+    'byzantium',
+    0,
+    ['offset', 'size'],
+    [],
+    'Halts execution reverting state changes and returning data'
+  ),
+  op(0xfe, 'INVALID', 'frontier', 0, [], [], 'Designated invalid instruction'),
+  op(
+    0xff,
+    'SELFDESTRUCT',
+    'frontier',
+    5000,
+    ['address'],
+    [],
+    'Sends the balance to address and marks the account for deletion'
+  ),
+];
+
+// Huff mnemonics that differ from the canonical opcode name
+const MNEMONIC_ALIASES: Record<string, string> = {
+  keccak256: 'SHA3',
+};
+
+export function isForkActive(since: EvmVersion, version: EvmVersion): boolean {
+  return EVM_FORKS.indexOf(since) <= EVM_FORKS.indexOf(version);
+}
+
+const tableCache = new Map<EvmVersion, Map<number, OpcodeInfo>>();
+
+// Opcodes available in the given EVM version, keyed by opcode byte
+export function getOpcodeTable(version: EvmVersion = DEFAULT_EVM_VERSION): Map<number, OpcodeInfo> {
+  let table = tableCache.get(version);
+  if (!table) {
+    table = new Map();
+    // Later entries for the same byte (e.g. PREVRANDAO) replace earlier ones
+    for (const info of OPCODES) {
+      if (isForkActive(info.since, version)) {
+        table.set(info.code, info);
+      }
+    }
+    tableCache.set(version, table);
+  }
+  return table;
+}
+
+// Look up an opcode by its Huff mnemonic (case-insensitive), regardless of EVM version
+export function getOpcodeByName(name: string): OpcodeInfo | undefined {
+  const upper = MNEMONIC_ALIASES[name.toLowerCase()] || name.toUpperCase();
+  return OPCODES.find(info => info.name === upper);
+}
@@ -0,0 +1,94 @@
+// Contract size accounting against the EIP-170 runtime and EIP-3860 initcode limits
+import { CompileResult } from '../compiler/types';
+import { stripHexPrefix } from './disassembler';
+
+export const EIP170_RUNTIME_LIMIT = 24_576;
+export const EIP3860_INITCODE_LIMIT = 49_152;
+
+// User-adjustable limits, e.g. for chains with different ones; saved per workspace
+export interface SizeLimits {
+  runtime: number;
+  initcode: number;
+  // Usage, in percent of a limit, from which a warning is shown
+  warningPercent: number;
+}
+
+export const defaultSizeLimits: SizeLimits = {
+  runtime: EIP170_RUNTIME_LIMIT,
+  initcode: EIP3860_INITCODE_LIMIT,
+  warningPercent: 90,
+};
+
+export interface CodeSizes {
+  runtime: number;
+  // Creation bytecode including constructor arguments
+  initcode: number;
+  // Creation bytecode before the runtime it deploys
+  constructor: number;
+  // Constructor arguments appended after the runtime
+  args: number;
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface SizeBudget {
+  kind: 'runtime' | 'initcode';
+  bytes: number;
+  limit: number;
+  level: BudgetLevel;
+}
+
+export function hexByteLength(hex: string | undefined): number {
+  return Math.floor(stripHexPrefix(hex || '').length / 2);
+}
+
+// Hex of the constructor arguments huff-neo appends to the creation bytecode, which ends with
+// the runtime it deploys followed by the arguments
+export function constructorArgsHex(result: CompileResult): string {
+  if (!result.settings?.constructArgs.length) return '';
+  const bytecode = stripHexPrefix(result.bytecode || '');
+  const runtime = stripHexPrefix(result.runtime || '');
+  const end = runtime ? bytecode.lastIndexOf(runtime) : -1;
+  if (end < 0 || end % 2 !== 0) return '';
+  return bytecode.slice(end + runtime.length);
+}
+
+export function codeSizes(result: CompileResult): CodeSizes {
+  const runtime = hexByteLength(result.runtime);
+  const initcode = hexByteLength(result.bytecode);
+  const args = hexByteLength(constructorArgsHex(result));
+  return { runtime, initcode, constructor: Math.max(initcode - runtime - args, 0), args };
+}
+
+function budgetLevel(bytes: number, limit: number, warningPercent: number): BudgetLevel {
+  if (bytes > limit) return 'exceeded';
+  if (bytes >= (limit * warningPercent) / 100) return 'warning';
+  return 'ok';
+}
+
+export function sizeBudgets(sizes: CodeSizes, limits: SizeLimits): SizeBudget[] {
+  return [
+    {
+      kind: 'runtime',
+      bytes: sizes.runtime,
+      limit: limits.runtime,
+      level: budgetLevel(sizes.runtime, limits.runtime, limits.warningPercent),
+    },
+    {
+      kind: 'initcode',
+      bytes: sizes.initcode,
+      limit: limits.initcode,
+      level: budgetLevel(sizes.initcode, limits.initcode, limits.warningPercent),
+    },
+  ];
+}
+
+export function describeBudget(budget: SizeBudget): string {
+  const name = budget.kind === 'runtime' ? 'Runtime code' : 'Initcode';
+  const usage = `${budget.bytes} of ${budget.limit} bytes`;
+  if (budget.level === 'exceeded') {
+    const eip = budget.kind === 'runtime' ? 'EIP-170' : 'EIP-3860';
+    return `${name} is ${budget.bytes - budget.limit} bytes over the ${eip} size limit (${usage}); deployment will fail`;
+  }
+  return `${name} is close to the size limit (${usage})`;
+}
@@ -0,0 +1,331 @@
+// Completion provider for Huff: opcodes, builtins, workspace symbols and definition snippets
+import * as monaco from 'monaco-editor';
+import { getOpcodeByName } from '../evm/opcodes';
+import { HUFF_BUILTINS, HUFF_OPCODES, HUFF_TYPES } from './tokenizer';
+import { HuffSymbol, findEnclosingMacro, isMacroLike } from './symbols';
+import { huffWorkspace } from './workspaceIndex';
+
+const DEFINITION_SNIPPETS: { label: string; insertText: string; documentation: string }[] = [
+  {
+    label: '#define macro',
+    insertText: '#define macro ${1:NAME}(${2}) = takes(${3:0}) returns(${4:0}) {\n\t$0\n}',
+    documentation: 'Macro definition, inlined at every call site',
+  },
+  {
+    label: '#define fn',
+    insertText: '#define fn ${1:NAME}(${2}) = takes(${3:0}) returns(${4:0}) {\n\t$0\n}',
+    documentation: 'Function definition, called with a jump instead of being inlined',
+  },
+  {
+    label: '#define test',
+    insertText: '#define test ${1:NAME}() = {\n\t$0\n}',
+    documentation: 'Test definition',
+  },
+  {
+    label: '#define function',
+    insertText:
+      '#define function ${1:name}(${2}) ${3|nonpayable,view,pure,payable|} returns (${4})',
+    documentation: 'ABI function declaration',
+  },
+  {
+    label: '#define event',
+    insertText: '#define event ${1:Name}(${2})',
+    documentation: 'ABI event declaration',
+  },
+  {
+    label: '#define error',
+    insertText: '#define error ${1:Name}(${2})',
+    documentation: 'ABI custom error declaration',
+  },
+  {
+    label: '#define constant',
+    insertText: '#define constant ${1:NAME} = ${2:FREE_STORAGE_POINTER()}',
+    documentation: 'Constant definition',
+  },
+  {
+    label: '#include',
+    insertText: '#include "${1:./file.huff}"',
+    documentation: 'Include another Huff file',
+  },
+];
+
+// Builtins taking a function, event or error name, and which definitions they accept
+const BUILTIN_ARGUMENTS: Record<string, HuffSymbol['kind'][]> = {
+  __FUNC_SIG: ['function', 'error'],
+  __EVENT_HASH: ['event'],
+  __ERROR: ['error'],
+};
+
+// Relative path from one workspace file to another, as written in #include
+function relativePath(from: string, to: string): string {
+  const fromParts = from.split('/').slice(0, -1);
+  const toParts = to.split('/');
+  let common = 0;
+  while (
+    common < fromParts.length &&
+    common < toParts.length - 1 &&
+    fromParts[common] === toParts[common]
+  ) {
+    common++;
+  }
+  const up = fromParts.length - common;
+  const rest = toParts.slice(common).join('/');
+  return up === 0 ? `./${rest}` : `${'../'.repeat(up)}${rest}`;
+}
+
+function macroSnippet(symbol: HuffSymbol): string {
+  const args = symbol.params.map((param, i) => `\${${i + 1}:${param}}`).join(', ');
+  return `${symbol.name}(${args})`;
+}
+
+function symbolDocumentation(symbol: HuffSymbol): string {
+  return `#define ${symbol.kind} ${symbol.name}${symbol.detail ? ` ${symbol.detail}` : ''}\n\n${symbol.file}`;
+}
+
+export function registerHuffCompletion(monaco: typeof import('monaco-editor')): monaco.IDisposable {
+  const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages;
+
+  return monaco.languages.registerCompletionItemProvider('huff', {
+    triggerCharacters: ['<', '[', '#', '"', '('],
+
+    provideCompletionItems(model, position) {
+      const file = huffWorkspace.getModelFile(model);
+      const offset = model.getOffsetAt(position);
+      const linePrefix = model.getValueInRange({
+        startLineNumber: position.lineNumber,
+        startColumn: 1,
+        endLineNumber: position.lineNumber,
+        endColumn: position.column,
+      });
+      const word = model.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+      // Range starting a fixed number of characters before the cursor
+      const rangeFrom = (length: number) => ({
+        ...range,
+        startColumn: position.column - length,
+        endColumn: position.column,
+      });
+      const suggestions: monaco.languages.CompletionItem[] = [];
+      const symbols = huffWorkspace.getSymbols();
+
+      // Paths inside #include "..."
+      const includeMatch = linePrefix.match(/#include\s+"([^"]*)$/);
+      if (includeMatch) {
+        for (const other of huffWorkspace.getFiles()) {
+          if (other.path === file.path) continue;
+          const path = relativePath(file.path, other.path);
+          suggestions.push({
+            label: path,
+            kind: CompletionItemKind.File,
+            insertText: path,
+            range: rangeFrom(includeMatch[1].length),
+          });
+        }
+        return { suggestions };
+      }
+
+      // Top-level definitions after "#"
+      const hashMatch = linePrefix.match(/^\s*(#\w*)$/);
+      if (hashMatch) {
+        for (const snippet of DEFINITION_SNIPPETS) {
+          suggestions.push({
+            label: snippet.label,
+            kind: CompletionItemKind.Snippet,
+            insertText: snippet.insertText,
+            insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: snippet.documentation,
+            range: rangeFrom(hashMatch[1].length),
+          });
+        }
+        return { suggestions };
+      }
+
+      // Function, event and error names inside __FUNC_SIG(...) and friends
+      const builtinMatch = linePrefix.match(/(__\w+)\(\s*(\w*)$/);
+      if (builtinMatch && BUILTIN_ARGUMENTS[builtinMatch[1]]) {
+        const kinds = BUILTIN_ARGUMENTS[builtinMatch[1]];
+        for (const symbol of symbols.filter(s => kinds.includes(s.kind))) {
+          suggestions.push({
+            label: symbol.name,
+            kind: symbol.kind === 'event' ? CompletionItemKind.Event : CompletionItemKind.Interface,
+            detail: `${symbol.kind} ${symbol.name}(${symbol.params.join(',')})`,
+            insertText: symbol.name,
+            range,
+          });
+        }
+        return { suggestions };
+      }
+
+      const macro = findEnclosingMacro(file.symbols, offset);
+      const inBody =
+        macro?.bodyStart !== undefined &&
+        macro.bodyEnd !== undefined &&
+        offset > macro.bodyStart &&
+        offset < macro.bodyEnd;
+
+      // Macro arguments after "<", including macro-argument calls like <op>()
+      const argMatch = linePrefix.match(/<(\w*)$/);
+      if (argMatch && macro) {
+        for (const param of macro.params) {
+          suggestions.push(
+            {
+              label: `<${param}>`,
+              kind: CompletionItemKind.Variable,
+              detail: `argument of ${macro.name}`,
+              insertText: `<${param}>`,
+              range: rangeFrom(argMatch[1].length + 1),
+            },
+            {
+              label: `<${param}>()`,
+              kind: CompletionItemKind.Snippet,
+              detail: `call the macro passed as ${param}`,
+              insertText: `<${param}>(\${1})`,
+              insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+              range: rangeFrom(argMatch[1].length + 1),
+            }
+          );
+        }
+        return { suggestions };
+      }
+
+      // Constants inside "[...]"
+      if (/\[\w*$/.test(linePrefix)) {
+        for (const symbol of symbols.filter(s => s.kind === 'constant')) {
+          suggestions.push({
+            label: symbol.name,
+            kind: CompletionItemKind.Constant,
+            detail: symbol.detail,
+            documentation: symbolDocumentation(symbol),
+            insertText: symbol.name,
+            range,
+          });
+        }
+        return { suggestions };
+      }
+
+      if (!inBody) {
+        // Headers and ABI declarations
+        for (const keyword of ['takes', 'returns', 'view', 'pure', 'payable', 'nonpayable']) {
+          suggestions.push({
+            label: keyword,
+            kind: CompletionItemKind.Keyword,
+            insertText: keyword,
+            range,
+          });
+        }
+        for (const type of HUFF_TYPES) {
+          suggestions.push({
+            label: type,
+            kind: CompletionItemKind.TypeParameter,
+            insertText: type,
+            range,
+          });
+        }
+        for (const snippet of DEFINITION_SNIPPETS) {
+          suggestions.push({
+            label: snippet.label,
+            kind: CompletionItemKind.Snippet,
+            insertText: snippet.insertText,
+            insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: snippet.documentation,
+            range,
+          });
+        }
+        return { suggestions };
+      }
+
+      // Labels and arguments of the enclosing macro come first
+      for (const label of file.symbols.filter(s => s.kind === 'label' && s.parent === macro.name)) {
+        suggestions.push({
+          label: label.name,
+          kind: CompletionItemKind.Reference,
+          detail: `jump label in ${macro.name}`,
+          insertText: label.name,
+          sortText: `0${label.name}`,
+          range,
+        });
+      }
+      for (const param of macro.params) {
+        suggestions.push({
+          label: `<${param}>`,
+          kind: CompletionItemKind.Variable,
+          detail: `argument of ${macro.name}`,
+          insertText: `<${param}>`,
+          sortText: `0${param}`,
+          range,
+        });
+      }
+
+      for (const symbol of symbols) {
+        if (isMacroLike(symbol) && symbol.kind !== 'test') {
+          suggestions.push({
+            label: `${symbol.name}()`,
+            kind: symbol.kind === 'fn' ? CompletionItemKind.Function : CompletionItemKind.Method,
+            detail: `${symbol.kind} ${symbol.detail}`,
+            documentation: symbolDocumentation(symbol),
+            insertText: macroSnippet(symbol),
+            insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+            filterText: symbol.name,
+            sortText: `1${symbol.name}`,
+            range,
+          });
+        } else if (symbol.kind === 'constant') {
+          suggestions.push({
+            label: `[${symbol.name}]`,
+            kind: CompletionItemKind.Constant,
+            detail: symbol.detail,
+            documentation: symbolDocumentation(symbol),
+            insertText: `[${symbol.name}]`,
+            filterText: symbol.name,
+            sortText: `1${symbol.name}`,
+            range,
+          });
+        } else if (symbol.kind === 'table') {
+          suggestions.push({
+            label: symbol.name,
+            kind: CompletionItemKind.Struct,
+            detail: symbol.detail,
+            insertText: symbol.name,
+            sortText: `1${symbol.name}`,
+            range,
+          });
+        }
+      }
+
+      for (const opcode of HUFF_OPCODES) {
+        const info = getOpcodeByName(opcode);
+        suggestions.push({
+          label: opcode,
+          kind: CompletionItemKind.Keyword,
+          detail: info
+            ? `0x${info.code.toString(16).padStart(2, '0')} [${info.stackIn.join(', ')}] → [${info.stackOut.join(', ')}]`
+            : 'opcode',
+          documentation: info?.description,
+          insertText: opcode,
+          sortText: `2${opcode}`,
+          range,
+        });
+      }
+
+      for (const builtin of HUFF_BUILTINS) {
+        suggestions.push({
+          label: `${builtin}()`,
+          kind: CompletionItemKind.Function,
+          detail: 'builtin',
+          insertText: `${builtin}(\${1})`,
+          insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+          filterText: builtin,
+          sortText: `3${builtin}`,
+          range,
+        });
+      }
+
+      return { suggestions };
+    },
+  });
+}
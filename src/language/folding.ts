@@ -0,0 +1,31 @@
+// Folding for macro and table bodies and block comments
+import * as monaco from 'monaco-editor';
+import { huffWorkspace } from './workspaceIndex';
+
+export function registerHuffFolding(monaco: typeof import('monaco-editor')): monaco.IDisposable {
+  return monaco.languages.registerFoldingRangeProvider('huff', {
+    provideFoldingRanges(model) {
+      const file = huffWorkspace.getModelFile(model);
+      const lineOf = (offset: number) => model.getPositionAt(offset).lineNumber;
+      const ranges: monaco.languages.FoldingRange[] = [];
+
+      for (const symbol of file.symbols) {
+        if (symbol.bodyStart === undefined && symbol.kind !== 'table') continue;
+        // Keep the closing brace visible, like the built-in brace folding
+        const start = lineOf(symbol.bodyStart ?? symbol.start);
+        const end = lineOf(symbol.end) - 1;
+        if (end > start) ranges.push({ start, end });
+      }
+
+      for (const token of file.tokens) {
+        if (token.kind !== 'comment' || !token.text.startsWith('/*')) continue;
+        const start = lineOf(token.start);
+        const end = lineOf(token.end);
+        if (end > start) {
+          ranges.push({ start, end, kind: monaco.languages.FoldingRangeKind.Comment });
+        }
+      }
+      return ranges;
+    },
+  });
+}
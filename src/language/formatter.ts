@@ -0,0 +1,212 @@
+// Huff source formatter: indentation of macro and table bodies, a column for trailing stack
+// comments and spacing in #define headers. Works line by line, so comments, line breaks and
+// blank-line grouping are kept as written.
+import { parseStackComment } from './stackCheck';
+import { HuffToken, tokenize } from './tokenizer';
+
+export interface FormatOptions {
+  tabSize: number;
+  insertSpaces: boolean;
+}
+
+export const defaultFormatOptions: FormatOptions = { tabSize: 4, insertSpaces: true };
+
+// Spaces before a trailing comment, counted from the longest line of a group for aligned
+// stack comments
+const COMMENT_GAP = 2;
+
+// ABI definitions write `returns (...)`, macros `returns(n)`
+const ABI_DEFINITIONS = new Set(['function', 'event', 'error']);
+
+interface LineLayout {
+  // Unchanged apart from trailing whitespace: the inside of a block comment
+  verbatim: boolean;
+  level: number;
+  code: string;
+  comment: string;
+  stackComment: boolean;
+}
+
+// Whitespace between two tokens of a #define, #include or #[...] line
+function headerSpacing(prev: HuffToken, next: HuffToken, abi: boolean): string {
+  if (next.text === ',' || next.text === ')' || next.text === ']') return '';
+  if (prev.text === '(' || prev.text === '[') return '';
+  if (prev.text === ',' || prev.text === '=' || next.text === '=') return ' ';
+  if (next.text === '(') return abi && prev.text === 'returns' ? ' ' : '';
+  if (next.text === '[') return '';
+  return ' ';
+}
+
+// Header lines are rebuilt up to their opening brace; everything else keeps the original
+// gaps between tokens, with runs of whitespace collapsed to one space
+function joinTokens(tokens: HuffToken[], texts: string[], header: boolean): string {
+  const abi = header && ABI_DEFINITIONS.has(tokens[1]?.text);
+  let inHeader = header;
+  let out = texts[0];
+  for (let i = 1; i < tokens.length; i++) {
+    const prev = tokens[i - 1];
+    const next = tokens[i];
+    // The tokenizer only skips whitespace, so any gap between tokens is whitespace
+    const gap = inHeader ? headerSpacing(prev, next, abi) : prev.end < next.start ? ' ' : '';
+    out += gap + texts[i];
+    if (next.text === '{') inHeader = false;
+  }
+  return out;
+}
+
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function layoutLines(source: string): LineLayout[] {
+  const tokens = tokenize(source);
+  const starts = lineStarts(source);
+  const lines: LineLayout[] = [];
+  let next = 0;
+  let depth = 0;
+  // Depth of the braces whose lines are currently under a label
+  let labelDepth: number | null = null;
+
+  for (let line = 0; line < starts.length; line++) {
+    const lineStart = starts[line];
+    const lineEnd = line + 1 < starts.length ? starts[line + 1] - 1 : source.length;
+    const lineText = source.slice(lineStart, lineEnd).replace(/\r$/, '');
+
+    // Lines starting inside a block comment from an earlier line
+    const previous = tokens[next - 1];
+    if (previous && previous.start < lineStart && previous.end > lineStart) {
+      // Code after the end of the comment is kept where it is but still opens and closes braces
+      while (next < tokens.length && tokens[next].start < lineEnd) {
+        if (tokens[next].text === '{') depth++;
+        if (tokens[next].text === '}') depth = Math.max(0, depth - 1);
+        next++;
+      }
+      lines.push({ verbatim: true, level: 0, code: lineText, comment: '', stackComment: false });
+      continue;
+    }
+
+    const onLine: HuffToken[] = [];
+    while (next < tokens.length && tokens[next].start < lineEnd) onLine.push(tokens[next++]);
+    // A block comment running into the next lines is cut at the end of this one
+    const texts = onLine.map(token =>
+      token.end > lineEnd ? source.slice(token.start, lineEnd).trimEnd() : token.text.trimEnd()
+    );
+
+    const last = onLine[onLine.length - 1];
+    const trailing =
+      onLine.length > 1 && last.kind === 'comment' && last.text.startsWith('//') ? last : null;
+    const code = trailing ? onLine.slice(0, -1) : onLine;
+    const codeTexts = trailing ? texts.slice(0, -1) : texts;
+
+    const startDepth = depth;
+    for (const token of code) {
+      if (token.text === '{') depth++;
+      if (token.text === '}') depth = Math.max(0, depth - 1);
+    }
+
+    if (code.length === 0) {
+      lines.push({ verbatim: false, level: 0, code: '', comment: '', stackComment: false });
+      continue;
+    }
+
+    const first = code[0];
+    let level = startDepth;
+    if (first.text === '}') {
+      level = Math.max(0, startDepth - 1);
+      labelDepth = null;
+    } else if (startDepth > 0 && first.kind === 'label') {
+      labelDepth = startDepth;
+    } else if (labelDepth !== null && startDepth === labelDepth) {
+      level++;
+    }
+    if (labelDepth !== null && startDepth < labelDepth) labelDepth = null;
+
+    const header = startDepth === 0 && first.text.startsWith('#');
+    lines.push({
+      verbatim: false,
+      level,
+      code: joinTokens(code, codeTexts, header),
+      comment: trailing ? texts[texts.length - 1] : '',
+      stackComment: trailing !== null && parseStackComment(trailing.text) !== null,
+    });
+  }
+
+  alignCommentLines(lines);
+  return lines;
+}
+
+// Comment-only lines introducing a label sit at the label's level rather than its contents'
+function alignCommentLines(lines: LineLayout[]) {
+  for (let i = lines.length - 1, following: LineLayout | null = null; i >= 0; i--) {
+    const line = lines[i];
+    if (line.verbatim) continue;
+    // Only comments directly above the label belong to it
+    if (line.code === '') {
+      following = null;
+      continue;
+    }
+    const commentOnly = line.code.startsWith('//') || line.code.startsWith('/*');
+    if (!commentOnly) {
+      following = line;
+    } else if (following && following.level < line.level && /^\w+:/.test(following.code)) {
+      line.level = following.level;
+    }
+  }
+}
+
+// Groups of adjacent code lines at the same level share a column for their stack comments
+function commentColumns(lines: LineLayout[], indentWidth: number): number[] {
+  const columns = lines.map(() => 0);
+  let group: number[] = [];
+  const flush = () => {
+    const commented = group.filter(i => lines[i].stackComment);
+    const width = Math.max(
+      0,
+      ...commented.map(i => lines[i].level * indentWidth + lines[i].code.length)
+    );
+    for (const i of commented) columns[i] = width + COMMENT_GAP;
+    group = [];
+  };
+
+  lines.forEach((line, i) => {
+    const commentOnly = line.code.startsWith('//') || line.code.startsWith('/*');
+    if (line.verbatim || line.code === '' || commentOnly) {
+      flush();
+      return;
+    }
+    if (group.length > 0 && lines[group[0]].level !== line.level) flush();
+    group.push(i);
+  });
+  flush();
+  return columns;
+}
+
+// The formatted text of every source line, in the same order and number as the input
+export function formatHuffLines(
+  source: string,
+  options: FormatOptions = defaultFormatOptions
+): string[] {
+  const indent = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+  // Tabs count as one tab stop when lining up comments
+  const indentWidth = options.tabSize;
+  const lines = layoutLines(source);
+  const columns = commentColumns(lines, indentWidth);
+
+  return lines.map((line, i) => {
+    if (line.verbatim) return line.code.trimEnd();
+    if (line.code === '') return '';
+    const text = indent.repeat(line.level) + line.code;
+    if (!line.comment) return text;
+    if (!line.stackComment) return text + ' '.repeat(COMMENT_GAP) + line.comment;
+    const width = line.level * indentWidth + line.code.length;
+    return text + ' '.repeat(Math.max(1, columns[i] - width)) + line.comment;
+  });
+}
+
+export function formatHuff(source: string, options: FormatOptions = defaultFormatOptions): string {
+  return formatHuffLines(source, options).join('\n');
+}
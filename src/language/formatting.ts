@@ -0,0 +1,47 @@
+// Document and range formatting for Huff, also used by format-on-save
+import * as monaco from 'monaco-editor';
+import { formatHuffLines } from './formatter';
+
+// One edit per changed line, so the cursor and undo history stay close to the original text
+export function huffFormattingEdits(
+  model: monaco.editor.ITextModel,
+  options: monaco.languages.FormattingOptions,
+  range?: monaco.IRange
+): monaco.languages.TextEdit[] {
+  const formatted = formatHuffLines(model.getValue(), options);
+  const first = range ? range.startLineNumber : 1;
+  const last = range ? range.endLineNumber : model.getLineCount();
+  const edits: monaco.languages.TextEdit[] = [];
+
+  for (let lineNumber = first; lineNumber <= last; lineNumber++) {
+    const text = formatted[lineNumber - 1];
+    if (text === undefined || text === model.getLineContent(lineNumber)) continue;
+    edits.push({
+      range: {
+        startLineNumber: lineNumber,
+        startColumn: 1,
+        endLineNumber: lineNumber,
+        endColumn: model.getLineMaxColumn(lineNumber),
+      },
+      text,
+    });
+  }
+  return edits;
+}
+
+export function registerHuffFormatting(
+  monaco: typeof import('monaco-editor')
+): monaco.IDisposable[] {
+  return [
+    monaco.languages.registerDocumentFormattingEditProvider('huff', {
+      provideDocumentFormattingEdits(model, options) {
+        return huffFormattingEdits(model, options);
+      },
+    }),
+    monaco.languages.registerDocumentRangeFormattingEditProvider('huff', {
+      provideDocumentRangeFormattingEdits(model, range, options) {
+        return huffFormattingEdits(model, options, range);
+      },
+    }),
+  ];
+}
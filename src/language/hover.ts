@@ -0,0 +1,159 @@
+// Hover documentation for opcodes and builtins, with computed selectors and hashes
+import * as monaco from 'monaco-editor';
+import { getOpcodeByName } from '../evm/opcodes';
+import { eventTopic, formatSignature, functionSelector } from '../abi/selectors';
+import { HUFF_BUILTINS, HUFF_OPCODES } from './tokenizer';
+import { HuffSymbol } from './symbols';
+import { huffWorkspace } from './workspaceIndex';
+
+const BUILTIN_DOCS: Record<string, string> = {
+  FREE_STORAGE_POINTER: 'Allocates the next free storage slot, starting at 0',
+  __FUNC_SIG: 'Pushes the 4-byte selector of a function or error',
+  __EVENT_HASH: 'Pushes the 32-byte topic hash of an event',
+  __ERROR: 'Pushes the 4-byte selector of a custom error, left-aligned in 32 bytes',
+  __RIGHTPAD: 'Pushes a literal right-padded to 32 bytes',
+  __LEFTPAD: 'Pushes a literal left-padded to 32 bytes',
+  __CODECOPY_DYN_ARG: 'Copies a dynamic constructor argument to memory',
+  __VERBATIM: 'Inserts the given bytes into the bytecode as-is',
+  __BYTES: 'Pushes the UTF-8 bytes of a string literal',
+  __tablesize: 'Pushes the size of a table in bytes',
+  __codesize: 'Pushes the size of a macro in bytes',
+  __tablestart: 'Pushes the offset of a table in the bytecode',
+};
+
+// Builtin call such as __FUNC_SIG(setValue) covering the given column, if any
+function findBuiltinCall(
+  line: string,
+  column: number
+): { name: string; argument: string; startColumn: number; endColumn: number } | null {
+  const pattern = /(__\w+|FREE_STORAGE_POINTER)\s*\(([^)]*)\)?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    const startColumn = match.index + 1;
+    const endColumn = startColumn + match[0].length;
+    if (column >= startColumn && column <= endColumn) {
+      return { name: match[1], argument: match[2].trim(), startColumn, endColumn };
+    }
+  }
+  return null;
+}
+
+// Signature for a builtin argument: either a quoted signature or the name of a definition
+function resolveSignature(argument: string, kinds: HuffSymbol['kind'][]): string | null {
+  const quoted = argument.match(/^"(.*)"$/);
+  if (quoted) return quoted[1].replace(/\s/g, '');
+  const definition = huffWorkspace
+    .findDefinitions(argument)
+    .find(symbol => kinds.includes(symbol.kind));
+  return definition ? formatSignature(definition.name, definition.params) : null;
+}
+
+function padLiteral(argument: string, left: boolean): string | null {
+  const hex = argument.replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length > 64) return null;
+  const even = hex.length % 2 === 0 ? hex : `0${hex}`;
+  return '0x' + (left ? even.padStart(64, '0') : even.padEnd(64, '0'));
+}
+
+function builtinValue(name: string, argument: string): string[] {
+  switch (name) {
+    case '__FUNC_SIG': {
+      const signature = resolveSignature(argument, ['function', 'error']);
+      return signature
+        ? [`\`${signature}\``, `Selector: \`${functionSelector(signature)}\``]
+        : [`Unknown function \`${argument}\``];
+    }
+    case '__ERROR': {
+      const signature = resolveSignature(argument, ['error']);
+      return signature
+        ? [
+            `\`${signature}\``,
+            `Selector: \`${functionSelector(signature)}\``,
+            `Pushed as: \`${functionSelector(signature).padEnd(66, '0')}\``,
+          ]
+        : [`Unknown error \`${argument}\``];
+    }
+    case '__EVENT_HASH': {
+      const signature = resolveSignature(argument, ['event']);
+      return signature
+        ? [`\`${signature}\``, `Topic: \`${eventTopic(signature)}\``]
+        : [`Unknown event \`${argument}\``];
+    }
+    case '__RIGHTPAD':
+    case '__LEFTPAD': {
+      const padded = padLiteral(argument, name === '__LEFTPAD');
+      return padded ? [`Value: \`${padded}\``] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+export function registerHuffHover(monaco: typeof import('monaco-editor')): monaco.IDisposable {
+  return monaco.languages.registerHoverProvider('huff', {
+    provideHover(model, position) {
+      // Refresh the index with the live model content before resolving names
+      huffWorkspace.getModelFile(model);
+      const line = model.getLineContent(position.lineNumber);
+
+      // Builtin calls, hovering either the builtin or its argument
+      const call = findBuiltinCall(line, position.column);
+      if (call) {
+        return {
+          range: {
+            startLineNumber: position.lineNumber,
+            endLineNumber: position.lineNumber,
+            startColumn: call.startColumn,
+            endColumn: call.endColumn,
+          },
+          contents: [
+            { value: `**${call.name}** (builtin)` },
+            { value: BUILTIN_DOCS[call.name] || '' },
+            ...builtinValue(call.name, call.argument).map(value => ({ value })),
+          ],
+        };
+      }
+
+      const word = model.getWordAtPosition(position);
+      if (!word) return null;
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+
+      if (HUFF_OPCODES.has(word.word)) {
+        const info = getOpcodeByName(word.word);
+        if (!info) return null;
+        const stack = `[${info.stackIn.join(', ')}] → [${info.stackOut.join(', ')}]`;
+        return {
+          range,
+          contents: [
+            { value: `**${info.name}** \`0x${info.code.toString(16).padStart(2, '0')}\`` },
+            { value: info.description },
+            {
+              value: [
+                `Stack: \`${stack}\``,
+                `Base gas: ${info.gas}`,
+                `Introduced: ${info.since}`,
+              ].join('  \n'),
+            },
+          ],
+        };
+      }
+
+      if (HUFF_BUILTINS.includes(word.word)) {
+        return {
+          range,
+          contents: [
+            { value: `**${word.word}** (builtin)` },
+            { value: BUILTIN_DOCS[word.word] || '' },
+          ],
+        };
+      }
+
+      return null;
+    },
+  });
+}
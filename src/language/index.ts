@@ -0,0 +1,24 @@
+// Monaco language features for Huff, registered once per Monaco instance
+import { registerHuffCompletion } from './completion';
+import { registerHuffFolding } from './folding';
+import { registerHuffFormatting } from './formatting';
+import { registerHuffHover } from './hover';
+import { registerHuffInlayHints } from './inlayHints';
+import { registerHuffNavigation } from './navigation';
+import { registerHuffOutline } from './outline';
+
+let registered = false;
+
+export function registerHuffLanguageFeatures(monaco: typeof import('monaco-editor')) {
+  // The editor remounts when switching between "no file" and a file, register only once
+  if (registered) return;
+  registered = true;
+
+  registerHuffCompletion(monaco);
+  registerHuffHover(monaco);
+  registerHuffNavigation(monaco);
+  registerHuffInlayHints(monaco);
+  registerHuffFormatting(monaco);
+  registerHuffOutline(monaco);
+  registerHuffFolding(monaco);
+}
@@ -0,0 +1,25 @@
+// Inferred stack at the end of each line of macro code, from the stack simulation
+import * as monaco from 'monaco-editor';
+import { checkStacks } from './stackCheck';
+import { huffWorkspace } from './workspaceIndex';
+
+export function registerHuffInlayHints(monaco: typeof import('monaco-editor')): monaco.IDisposable {
+  return monaco.languages.registerInlayHintsProvider('huff', {
+    provideInlayHints(model, range) {
+      const file = huffWorkspace.getModelFile(model);
+      const { hints } = checkStacks(file, huffWorkspace.getFiles());
+      const visible = hints.filter(
+        hint => hint.line + 1 >= range.startLineNumber && hint.line + 1 <= range.endLineNumber
+      );
+      return {
+        hints: visible.map(hint => ({
+          label: `[${hint.stack.join(', ')}]`,
+          position: { lineNumber: hint.line + 1, column: model.getLineMaxColumn(hint.line + 1) },
+          kind: monaco.languages.InlayHintKind.Type,
+          paddingLeft: true,
+        })),
+        dispose: () => {},
+      };
+    },
+  });
+}
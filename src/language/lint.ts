@@ -0,0 +1,288 @@
+// Static checks for common Huff mistakes, run on the tokens and symbols of the workspace
+import { formatSignature, functionSelector } from '../abi/selectors';
+import { HuffSymbol, ParsedHuffFile, isMacroLike } from './symbols';
+import { checkStacks } from './stackCheck';
+import { HUFF_BUILTINS, HuffToken, codeTokens } from './tokenizer';
+
+export type LintRuleId =
+  | 'unreachable-code'
+  | 'unused-label'
+  | 'unused-macro'
+  | 'unused-constant'
+  | 'duplicate-selector'
+  | 'invalid-jump-target'
+  | 'stack-mismatch';
+
+export interface LintRule {
+  id: LintRuleId;
+  description: string;
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'unreachable-code',
+    description: 'Code after stop, return, revert or jump without a label',
+  },
+  { id: 'unused-label', description: 'Labels that are never jumped to' },
+  { id: 'unused-macro', description: 'Macros that are never invoked' },
+  { id: 'unused-constant', description: 'Constants that are never used' },
+  { id: 'duplicate-selector', description: 'Selectors compared more than once in a dispatcher' },
+  { id: 'invalid-jump-target', description: 'jump and jumpi targets that are not labels' },
+  {
+    id: 'stack-mismatch',
+    description: 'takes/returns and // [...] comments that disagree with the simulated stack',
+  },
+];
+
+// Enabled state per rule, saved per workspace; rules added since a workspace was saved are on
+export type LintSettings = Partial<Record<LintRuleId, boolean>>;
+
+export const defaultLintSettings: LintSettings = {
+  'unreachable-code': true,
+  'unused-label': true,
+  'unused-macro': true,
+  'unused-constant': true,
+  'duplicate-selector': true,
+  'invalid-jump-target': true,
+  'stack-mismatch': true,
+};
+
+export function isRuleEnabled(settings: LintSettings, rule: LintRuleId): boolean {
+  return settings[rule] !== false;
+}
+
+export interface LintWarning {
+  rule: LintRuleId;
+  message: string;
+  start: number;
+  end: number;
+  // Dead or unused code, shown faded in the editor
+  unnecessary?: boolean;
+}
+
+export interface LintOptions {
+  // Macros compiled as entry points, never reported as unused
+  entryPoints: string[];
+}
+
+// Opcodes after which execution never falls through to the next instruction
+const TERMINATORS = new Set(['stop', 'return', 'revert', 'invalid', 'selfdestruct', 'jump']);
+const JUMPS = new Set(['jump', 'jumpi']);
+
+// Code tokens inside each macro body, without the braces
+function macroBodies(file: ParsedHuffFile): HuffToken[][] {
+  const code = codeTokens(file.tokens);
+  return file.symbols
+    .filter(symbol => isMacroLike(symbol) && symbol.bodyStart !== undefined)
+    .map(macro =>
+      code.filter(token => token.start > macro.bodyStart! && token.end < macro.bodyEnd!)
+    );
+}
+
+function lintUnreachable(file: ParsedHuffFile): LintWarning[] {
+  const warnings: LintWarning[] = [];
+  for (const tokens of macroBodies(file)) {
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].kind !== 'opcode' || !TERMINATORS.has(tokens[i].text)) continue;
+      // Everything up to the next label is dead
+      let end = i + 1;
+      while (end < tokens.length && tokens[end].kind !== 'label') end++;
+      if (end > i + 1) {
+        warnings.push({
+          rule: 'unreachable-code',
+          message: `Unreachable code after \`${tokens[i].text}\``,
+          start: tokens[i + 1].start,
+          end: tokens[end - 1].end,
+          unnecessary: true,
+        });
+      }
+      i = end - 1;
+    }
+  }
+  return warnings;
+}
+
+function referencedNames(workspace: ParsedHuffFile[]): Set<string> {
+  return new Set(workspace.flatMap(file => file.references.map(reference => reference.name)));
+}
+
+// Names used as jump targets: right before jump or jumpi, or passed to a macro that may jump
+function jumpTargetNames(file: ParsedHuffFile): Set<string> {
+  const names = new Set<string>();
+  for (const tokens of macroBodies(file)) {
+    tokens.forEach((token, i) => {
+      const next = tokens[i + 1];
+      if (token.kind === 'identifier' && next?.kind === 'opcode' && JUMPS.has(next.text)) {
+        names.add(token.text);
+      }
+    });
+  }
+  for (const reference of file.references) {
+    if (reference.argumentOf && !HUFF_BUILTINS.includes(reference.argumentOf)) {
+      names.add(reference.name);
+    }
+  }
+  return names;
+}
+
+function lintUnused(
+  file: ParsedHuffFile,
+  workspace: ParsedHuffFile[],
+  options: LintOptions,
+  settings: LintSettings
+): LintWarning[] {
+  const used = referencedNames(workspace);
+  const jumpTargets = jumpTargetNames(file);
+  const warnings: LintWarning[] = [];
+  const entryPoints = new Set(['MAIN', 'CONSTRUCTOR', ...options.entryPoints]);
+
+  for (const symbol of file.symbols) {
+    let rule: LintRuleId | null = null;
+    let message = '';
+    if (symbol.kind === 'label') {
+      // Labels can be jumped to from macros invoked inside their own, so any jump in the
+      // file counts, but not other uses of the name such as __FUNC_SIG(name)
+      if (!jumpTargets.has(symbol.name)) {
+        rule = 'unused-label';
+        message = `Label \`${symbol.name}\` is never jumped to`;
+      }
+    } else if ((symbol.kind === 'macro' || symbol.kind === 'fn') && !used.has(symbol.name)) {
+      if (!entryPoints.has(symbol.name)) {
+        rule = 'unused-macro';
+        message = `Macro \`${symbol.name}\` is never invoked`;
+      }
+    } else if (symbol.kind === 'constant' && !used.has(symbol.name)) {
+      rule = 'unused-constant';
+      message = `Constant \`${symbol.name}\` is never used`;
+    }
+    if (rule && isRuleEnabled(settings, rule)) {
+      warnings.push({
+        rule,
+        message,
+        start: symbol.nameStart,
+        end: symbol.nameEnd,
+        unnecessary: true,
+      });
+    }
+  }
+  return warnings;
+}
+
+// Selector of a __FUNC_SIG(...) argument: a signature string or a defined function name
+function funcSigSelector(
+  argument: HuffToken,
+  functions: Map<string, HuffSymbol>
+): { selector: string; signature: string } | null {
+  if (argument.kind === 'string') {
+    const signature = argument.text.replace(/^"|"$/g, '').replace(/\s/g, '');
+    return { selector: functionSelector(signature), signature };
+  }
+  const definition = functions.get(argument.text);
+  if (!definition) return null;
+  const signature = formatSignature(definition.name, definition.params);
+  return { selector: functionSelector(signature), signature };
+}
+
+function lintDuplicateSelectors(file: ParsedHuffFile, workspace: ParsedHuffFile[]): LintWarning[] {
+  const functions = new Map(
+    workspace
+      .flatMap(parsed => parsed.symbols)
+      .filter(symbol => symbol.kind === 'function')
+      .map(symbol => [symbol.name, symbol])
+  );
+  const warnings: LintWarning[] = [];
+
+  for (const tokens of macroBodies(file)) {
+    const seen = new Set<string>();
+    for (let i = 0; i < tokens.length; i++) {
+      let found: { selector: string; signature: string; start: number; end: number } | null = null;
+      let next = i + 1;
+      if (tokens[i].text === '__FUNC_SIG' && tokens[i + 1]?.text === '(' && tokens[i + 2]) {
+        const resolved = funcSigSelector(tokens[i + 2], functions);
+        next = i + 4;
+        if (resolved) {
+          found = {
+            ...resolved,
+            start: tokens[i].start,
+            end: (tokens[i + 3] || tokens[i + 2]).end,
+          };
+        }
+      } else if (/^0x[0-9a-fA-F]{8}$/.test(tokens[i].text)) {
+        const selector = tokens[i].text.toLowerCase();
+        found = { selector, signature: selector, start: tokens[i].start, end: tokens[i].end };
+      }
+      // Only selectors compared against the calldata are dispatches
+      if (!found || tokens[next]?.text !== 'eq') continue;
+
+      if (seen.has(found.selector)) {
+        const name =
+          found.signature === found.selector
+            ? found.selector
+            : `${found.signature} (${found.selector})`;
+        warnings.push({
+          rule: 'duplicate-selector',
+          message: `Selector ${name} is already dispatched earlier in this macro; this branch is never taken`,
+          start: found.start,
+          end: found.end,
+        });
+      }
+      seen.add(found.selector);
+    }
+  }
+  return warnings;
+}
+
+function lintJumpTargets(file: ParsedHuffFile, workspace: ParsedHuffFile[]): LintWarning[] {
+  const labels = new Set(
+    workspace.flatMap(parsed => parsed.symbols.filter(s => s.kind === 'label').map(s => s.name))
+  );
+  const warnings: LintWarning[] = [];
+
+  for (const tokens of macroBodies(file)) {
+    tokens.forEach((token, i) => {
+      if (token.kind !== 'opcode' || !JUMPS.has(token.text) || i === 0) return;
+      // Targets computed on the stack or passed as macro arguments cannot be checked
+      const target = tokens[i - 1];
+      if (target.kind === 'identifier' && !labels.has(target.text)) {
+        warnings.push({
+          rule: 'invalid-jump-target',
+          message: `\`${target.text}\` is not a label; \`${token.text}\` needs a jump label as its target`,
+          start: target.start,
+          end: target.end,
+        });
+      } else if (target.kind === 'number') {
+        warnings.push({
+          rule: 'invalid-jump-target',
+          message: `\`${token.text}\` to the literal ${target.text} instead of a label; the offset breaks when code moves`,
+          start: target.start,
+          end: target.end,
+        });
+      }
+    });
+  }
+  return warnings;
+}
+
+// The workspace is the files compiled together with the linted one, so macros and constants
+// used only by an unrelated contract still count as unused
+export function lintFile(
+  file: ParsedHuffFile,
+  workspace: ParsedHuffFile[],
+  settings: LintSettings,
+  options: LintOptions = { entryPoints: [] }
+): LintWarning[] {
+  const warnings: LintWarning[] = [];
+  if (isRuleEnabled(settings, 'unreachable-code')) warnings.push(...lintUnreachable(file));
+  warnings.push(...lintUnused(file, workspace, options, settings));
+  if (isRuleEnabled(settings, 'duplicate-selector'))
+    warnings.push(...lintDuplicateSelectors(file, workspace));
+  if (isRuleEnabled(settings, 'invalid-jump-target'))
+    warnings.push(...lintJumpTargets(file, workspace));
+  if (isRuleEnabled(settings, 'stack-mismatch')) {
+    const stackWarnings = checkStacks(file, workspace).warnings;
+    warnings.push(
+      ...stackWarnings.map(warning => ({ ...warning, rule: 'stack-mismatch' as const }))
+    );
+  }
+  return warnings.sort((a, b) => a.start - b.start);
+}
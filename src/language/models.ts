@@ -0,0 +1,80 @@
+// One Monaco model per workspace file, so cross-file navigation and rename can address them
+import * as monaco from 'monaco-editor';
+
+// Model URI for a folder-relative workspace path
+export function fileUri(path: string): string {
+  return `file:///${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// Position in a workspace file, 1-based like Monaco positions
+export interface SourceLocation {
+  file: string;
+  lineNumber: number;
+  column: number;
+}
+
+// Location of a character offset in a file's source
+export function locationAt(file: string, source: string, offset: number): SourceLocation {
+  const before = source.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    file,
+    lineNumber: before.split('\n').length,
+    column: offset - lineStart + 1,
+  };
+}
+
+export class WorkspaceModels {
+  private models = new Map<string, monaco.editor.ITextModel>();
+  private listeners = new Map<string, monaco.IDisposable>();
+  private syncing = false;
+  private activePath: string | null = null;
+
+  constructor(
+    private monaco: typeof import('monaco-editor'),
+    // Called when a model other than the open one is edited, e.g. by a rename
+    private onExternalEdit: (path: string, content: string) => void
+  ) {}
+
+  // Create, update and dispose models to match the workspace files
+  sync(files: Map<string, string>, activePath: string | null) {
+    this.activePath = activePath;
+    this.syncing = true;
+    try {
+      for (const [path, content] of files) {
+        const uri = this.monaco.Uri.parse(fileUri(path));
+        let model = this.monaco.editor.getModel(uri);
+        if (!model) {
+          model = this.monaco.editor.createModel(content, 'huff', uri);
+        } else if (path !== activePath && model.getValue() !== content) {
+          // The open model is owned by the editor, the others follow the file tree
+          model.setValue(content);
+        }
+        // The editor disposes the open model when it unmounts, watch its replacement
+        if (this.models.get(path) !== model) {
+          this.listeners.get(path)?.dispose();
+          this.listeners.set(path, this.watch(path, model));
+        }
+        this.models.set(path, model);
+      }
+
+      for (const [path, model] of this.models) {
+        if (!files.has(path)) {
+          this.listeners.get(path)?.dispose();
+          this.listeners.delete(path);
+          this.models.delete(path);
+          if (!model.isDisposed()) model.dispose();
+        }
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private watch(path: string, model: monaco.editor.ITextModel): monaco.IDisposable {
+    return model.onDidChangeContent(() => {
+      if (this.syncing || path === this.activePath) return;
+      this.onExternalEdit(path, model.getValue());
+    });
+  }
+}
@@ -0,0 +1,233 @@
+// Go to definition, find references and rename for Huff symbols across the files compiled
+// together with the open one
+import * as monaco from 'monaco-editor';
+import { HUFF_BUILTINS, HUFF_KEYWORDS, HUFF_OPCODES } from './tokenizer';
+import { HuffReference, HuffSymbol, ParsedHuffFile, findEnclosingMacro } from './symbols';
+import { fileUri } from './models';
+import { huffWorkspace } from './workspaceIndex';
+
+export interface SymbolOccurrence {
+  file: string;
+  start: number;
+  end: number;
+  isDefinition: boolean;
+}
+
+export interface ResolvedSymbol {
+  name: string;
+  // Labels are scoped to the macro that defines them
+  label?: { file: string; macro: string };
+  definitions: HuffSymbol[];
+  // Files the symbol can be defined and used in
+  files: ParsedHuffFile[];
+  // Range of the name under the cursor
+  start: number;
+  end: number;
+}
+
+// Builtins whose argument names a function, event or error, never a label
+const ABI_BUILTINS = new Set(['__FUNC_SIG', '__EVENT_HASH', '__ERROR']);
+const ABI_KINDS = new Set(['function', 'event', 'error']);
+
+function isAbiArgument(reference: HuffReference | undefined): boolean {
+  return !!reference?.argumentOf && ABI_BUILTINS.has(reference.argumentOf);
+}
+
+// Resolve the symbol under the given offset to its definitions
+export function resolveSymbolAt(file: ParsedHuffFile, offset: number): ResolvedSymbol | null {
+  // A cursor between "(" and a name belongs to the name
+  const token = file.tokens.find(
+    t => t.start <= offset && offset <= t.end && (t.kind === 'identifier' || t.kind === 'label')
+  );
+  if (!token) return null;
+
+  const name = token.kind === 'label' ? token.text.slice(0, -1) : token.text;
+  const end = token.start + name.length;
+  if (offset > end && token.kind === 'label') return null;
+  const abiArgument = isAbiArgument(file.references.find(ref => ref.start === token.start));
+
+  // Labels shadow global names inside their macro, except in __FUNC_SIG(...) and the like
+  const macro = abiArgument ? undefined : findEnclosingMacro(file.symbols, token.start);
+  if (macro) {
+    const labels = file.symbols.filter(
+      s => s.kind === 'label' && s.parent === macro.name && s.name === name
+    );
+    if (labels.length > 0 || token.kind === 'label') {
+      return {
+        name,
+        label: { file: file.path, macro: macro.name },
+        definitions: labels,
+        files: [file],
+        start: token.start,
+        end,
+      };
+    }
+  }
+
+  // Contracts in the same workspace reuse names like MAIN; only follow the #include graph
+  const definitions = huffWorkspace
+    .getRelatedFiles(file.path)
+    .flatMap(related => related.symbols)
+    .filter(
+      symbol =>
+        symbol.kind !== 'label' &&
+        symbol.name === name &&
+        (!abiArgument || ABI_KINDS.has(symbol.kind))
+    );
+  // A definition in a shared file is also used by the other files that include it
+  const files = new Set([file.path, ...definitions.map(definition => definition.file)]);
+  return {
+    name,
+    definitions,
+    files: [...new Set([...files].flatMap(path => huffWorkspace.getRelatedFiles(path)))],
+    start: token.start,
+    end,
+  };
+}
+
+// Every definition and use of a resolved symbol
+export function findOccurrences(resolved: ResolvedSymbol): SymbolOccurrence[] {
+  const occurrences: SymbolOccurrence[] = resolved.definitions.map(definition => ({
+    file: definition.file,
+    start: definition.nameStart,
+    end: definition.nameEnd,
+    isDefinition: true,
+  }));
+
+  if (resolved.label) {
+    const { file, macro } = resolved.label;
+    for (const ref of huffWorkspace.getFile(file)?.references || []) {
+      if (ref.scope === macro && ref.name === resolved.name && !isAbiArgument(ref)) {
+        occurrences.push({ file, start: ref.start, end: ref.end, isDefinition: false });
+      }
+    }
+    return occurrences;
+  }
+
+  const isAbiSymbol = resolved.definitions.some(definition => ABI_KINDS.has(definition.kind));
+  for (const parsed of resolved.files) {
+    // Skip uses inside macros where a label of the same name shadows the global
+    const shadowed = new Set(
+      parsed.symbols.filter(s => s.kind === 'label' && s.name === resolved.name).map(s => s.parent)
+    );
+    for (const ref of parsed.references) {
+      if (ref.name !== resolved.name) continue;
+      const matches = isAbiArgument(ref) ? isAbiSymbol : !(ref.scope && shadowed.has(ref.scope));
+      if (matches) {
+        occurrences.push({
+          file: parsed.path,
+          start: ref.start,
+          end: ref.end,
+          isDefinition: false,
+        });
+      }
+    }
+  }
+  return occurrences;
+}
+
+function toLocation(
+  monaco: typeof import('monaco-editor'),
+  occurrence: { file: string; start: number; end: number }
+): monaco.languages.Location | null {
+  const uri = monaco.Uri.parse(fileUri(occurrence.file));
+  const model = monaco.editor.getModel(uri);
+  if (!model) return null;
+  const start = model.getPositionAt(occurrence.start);
+  const end = model.getPositionAt(occurrence.end);
+  return {
+    uri,
+    range: {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    },
+  };
+}
+
+function isReservedName(name: string): boolean {
+  return HUFF_KEYWORDS.has(name) || HUFF_OPCODES.has(name) || HUFF_BUILTINS.includes(name);
+}
+
+export function registerHuffNavigation(
+  monaco: typeof import('monaco-editor')
+): monaco.IDisposable[] {
+  const resolveAt = (model: monaco.editor.ITextModel, position: monaco.Position) => {
+    const file = huffWorkspace.getModelFile(model);
+    return resolveSymbolAt(file, model.getOffsetAt(position));
+  };
+
+  return [
+    monaco.languages.registerDefinitionProvider('huff', {
+      provideDefinition(model, position) {
+        const resolved = resolveAt(model, position);
+        if (!resolved) return null;
+        return resolved.definitions
+          .map(definition =>
+            toLocation(monaco, {
+              file: definition.file,
+              start: definition.nameStart,
+              end: definition.nameEnd,
+            })
+          )
+          .filter((location): location is monaco.languages.Location => location !== null);
+      },
+    }),
+
+    monaco.languages.registerReferenceProvider('huff', {
+      provideReferences(model, position, context) {
+        const resolved = resolveAt(model, position);
+        if (!resolved) return null;
+        return findOccurrences(resolved)
+          .filter(occurrence => context.includeDeclaration || !occurrence.isDefinition)
+          .map(occurrence => toLocation(monaco, occurrence))
+          .filter((location): location is monaco.languages.Location => location !== null);
+      },
+    }),
+
+    monaco.languages.registerRenameProvider('huff', {
+      resolveRenameLocation(model, position) {
+        const resolved = resolveAt(model, position);
+        if (!resolved || resolved.definitions.length === 0) {
+          return {
+            range: new monaco.Range(
+              position.lineNumber,
+              position.column,
+              position.lineNumber,
+              position.column
+            ),
+            text: '',
+            rejectReason: 'Only macros, constants, ABI definitions and labels can be renamed',
+          };
+        }
+        const start = model.getPositionAt(resolved.start);
+        const end = model.getPositionAt(resolved.end);
+        return {
+          range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          text: resolved.name,
+        };
+      },
+
+      provideRenameEdits(model, position, newName) {
+        const resolved = resolveAt(model, position);
+        if (!resolved || resolved.definitions.length === 0) return null;
+        if (!/^[A-Za-z_]\w*$/.test(newName) || isReservedName(newName)) {
+          return { edits: [], rejectReason: `"${newName}" is not a valid Huff identifier` };
+        }
+
+        const edits: monaco.languages.IWorkspaceTextEdit[] = [];
+        for (const occurrence of findOccurrences(resolved)) {
+          const location = toLocation(monaco, occurrence);
+          if (!location) continue;
+          edits.push({
+            resource: location.uri,
+            textEdit: { range: location.range, text: newName },
+            versionId: undefined,
+          });
+        }
+        return { edits };
+      },
+    }),
+  ];
+}
@@ -0,0 +1,98 @@
+// Outline of a Huff file: its definitions in source order, with the labels of each macro nested
+// inside it, for the Outline panel, breadcrumbs and Monaco's document symbols
+import * as monaco from 'monaco-editor';
+import { HuffSymbol, HuffSymbolKind, ParsedHuffFile, isMacroLike } from './symbols';
+import { huffWorkspace } from './workspaceIndex';
+
+export interface OutlineItem {
+  symbol: HuffSymbol;
+  // Offsets covered by the item; a label runs until the next label or the end of its macro
+  start: number;
+  end: number;
+  children: OutlineItem[];
+}
+
+export function outlineItems(file: ParsedHuffFile): OutlineItem[] {
+  const definitions = file.symbols
+    .filter(symbol => symbol.kind !== 'label')
+    .sort((a, b) => a.start - b.start);
+  const labels = file.symbols.filter(symbol => symbol.kind === 'label');
+
+  return definitions.map(symbol => {
+    const item: OutlineItem = { symbol, start: symbol.start, end: symbol.end, children: [] };
+    if (!isMacroLike(symbol) || symbol.bodyStart === undefined) return item;
+
+    const own = labels
+      .filter(label => label.start > symbol.bodyStart! && label.end < symbol.bodyEnd!)
+      .sort((a, b) => a.start - b.start);
+    item.children = own.map((label, i) => ({
+      symbol: label,
+      start: label.start,
+      end: i + 1 < own.length ? own[i + 1].start - 1 : symbol.bodyEnd! - 1,
+      children: [],
+    }));
+    return item;
+  });
+}
+
+// Items enclosing an offset, outermost first: a definition and the label inside it
+export function outlinePath(items: OutlineItem[], offset: number): OutlineItem[] {
+  const path: OutlineItem[] = [];
+  let level = items;
+  for (;;) {
+    const item = level.find(candidate => candidate.start <= offset && offset <= candidate.end);
+    if (!item) return path;
+    path.push(item);
+    level = item.children;
+  }
+}
+
+function symbolKind(
+  monaco: typeof import('monaco-editor'),
+  kind: HuffSymbolKind
+): monaco.languages.SymbolKind {
+  const { SymbolKind } = monaco.languages;
+  switch (kind) {
+    case 'constant':
+      return SymbolKind.Constant;
+    case 'function':
+      return SymbolKind.Interface;
+    case 'event':
+      return SymbolKind.Event;
+    case 'error':
+      return SymbolKind.Struct;
+    case 'fn':
+      return SymbolKind.Function;
+    case 'table':
+      return SymbolKind.Array;
+    case 'label':
+      return SymbolKind.Key;
+    default:
+      return SymbolKind.Method;
+  }
+}
+
+export function registerHuffOutline(monaco: typeof import('monaco-editor')): monaco.IDisposable {
+  const toRange = (model: monaco.editor.ITextModel, start: number, end: number): monaco.IRange =>
+    monaco.Range.fromPositions(model.getPositionAt(start), model.getPositionAt(end));
+
+  const toDocumentSymbol = (
+    model: monaco.editor.ITextModel,
+    item: OutlineItem
+  ): monaco.languages.DocumentSymbol => ({
+    name: item.symbol.name,
+    detail: item.symbol.detail,
+    kind: symbolKind(monaco, item.symbol.kind),
+    tags: [],
+    range: toRange(model, item.start, item.end),
+    selectionRange: toRange(model, item.symbol.nameStart, item.symbol.nameEnd),
+    children: item.children.map(child => toDocumentSymbol(model, child)),
+  });
+
+  return monaco.languages.registerDocumentSymbolProvider('huff', {
+    provideDocumentSymbols(model) {
+      const file = huffWorkspace.getModelFile(model);
+      return outlineItems(file).map(item => toDocumentSymbol(model, item));
+    },
+  });
+}
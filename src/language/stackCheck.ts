@@ -0,0 +1,408 @@
+// Symbolic stack simulation of macro bodies, checked against takes/returns and // [...] comments
+import { getOpcodeByName } from '../evm/opcodes';
+import { HuffSymbol, ParsedHuffFile, isMacroLike } from './symbols';
+import { HuffToken, codeTokens, labelName } from './tokenizer';
+
+export interface StackWarning {
+  message: string;
+  start: number;
+  end: number;
+}
+
+// Inferred stack after the last instruction of a line, top first
+export interface StackHint {
+  // Zero-based line number
+  line: number;
+  stack: string[];
+}
+
+export interface StackCheckResult {
+  warnings: StackWarning[];
+  hints: StackHint[];
+}
+
+interface StackEffect {
+  takes: number;
+  returns: number;
+}
+
+// Opcodes after which execution does not continue with the next instruction
+const TERMINATORS = new Set(['stop', 'return', 'revert', 'invalid', 'selfdestruct', 'jump']);
+// Builtins that push a single value
+const VALUE_BUILTINS = new Set([
+  '__FUNC_SIG',
+  '__EVENT_HASH',
+  '__ERROR',
+  '__RIGHTPAD',
+  '__LEFTPAD',
+  '__BYTES',
+  '__tablesize',
+  '__codesize',
+  '__tablestart',
+]);
+// Longest item name shown before it is shortened
+const MAX_ITEM_LENGTH = 24;
+
+const STACK_COMMENT = /^\/\/\s*\[([^\]]*)\]/;
+
+function shorten(name: string): string {
+  return name.length > MAX_ITEM_LENGTH ? `${name.slice(0, MAX_ITEM_LENGTH - 1)}…` : name;
+}
+
+// Items of a "// [a, b]" comment, top first; null for other comments
+export function parseStackComment(text: string): string[] | null {
+  const match = text.match(STACK_COMMENT);
+  if (!match) return null;
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of match[1]) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current.trim());
+  return items.length === 1 && items[0] === '' ? [] : items;
+}
+
+// Index of the parenthesis closing the one at tokens[open]
+function closingParen(tokens: HuffToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].text === '(') depth++;
+    else if (tokens[i].text === ')' && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+// Argument texts of a macro invocation whose "(" is at tokens[open]
+function callArguments(tokens: HuffToken[], open: number): string[] {
+  const close = closingParen(tokens, open);
+  const args: string[] = [];
+  let current: string[] = [];
+  for (let i = open + 1; i < close; i++) {
+    if (tokens[i].text === ',') {
+      args.push(current.join(''));
+      current = [];
+    } else {
+      current.push(tokens[i].text);
+    }
+  }
+  if (current.length > 0) args.push(current.join(''));
+  return args;
+}
+
+// Outputs of an opcode with its input names replaced by the items it consumed
+function opcodeOutputs(inputs: string[], outputs: string[], items: string[]): string[] {
+  const names = new Map(inputs.map((name, i) => [name, items[i]]));
+  return outputs.map(expression => {
+    if (names.has(expression)) return names.get(expression)!;
+    const substituted = expression.replace(/\b[a-zA-Z_]\w*\b/g, word => {
+      const item = names.get(word);
+      if (item === undefined) return word;
+      return /\s/.test(item) ? `(${item})` : item;
+    });
+    return substituted.length > MAX_ITEM_LENGTH ? expression : substituted;
+  });
+}
+
+// Arguments passed for each macro parameter at every call site in the workspace
+function collectCallSites(workspace: ParsedHuffFile[]): Map<string, string[][]> {
+  const calls = new Map<string, string[][]>();
+  for (const file of workspace) {
+    const code = codeTokens(file.tokens);
+    code.forEach((token, i) => {
+      if (token.kind !== 'identifier' || code[i + 1]?.text !== '(') return;
+      if (i > 1 && code[i - 2]?.text === '#define') return;
+      const list = calls.get(token.text) || [];
+      list.push(callArguments(code, i + 1));
+      calls.set(token.text, list);
+    });
+  }
+  return calls;
+}
+
+class MacroSimulator {
+  private stack: string[] | null;
+  // The previous instruction ended execution, so the code up to the next label is unreachable
+  private terminated = false;
+  // Stack at labels, from the jumps seen so far
+  private labelStacks = new Map<string, string[]>();
+  private underflowReported = false;
+
+  constructor(
+    private macro: HuffSymbol,
+    private macros: Map<string, HuffSymbol>,
+    private callSites: Map<string, string[][]>,
+    private warnings: StackWarning[]
+  ) {
+    this.stack = Array.from({ length: macro.takes ?? 0 }, (_, i) => `$${i}`);
+  }
+
+  get current(): string[] | null {
+    return this.stack;
+  }
+
+  private warn(message: string, token: { start: number; end: number }) {
+    this.warnings.push({ message, start: token.start, end: token.end });
+  }
+
+  private pop(count: number, token: HuffToken): string[] {
+    const stack = this.stack!;
+    if (stack.length < count) {
+      if (!this.underflowReported) {
+        const takes = this.macro.takes ?? 0;
+        this.warn(
+          `Stack underflow: \`${token.text}\` needs ${count} item${count === 1 ? '' : 's'} but ` +
+            `only ${stack.length} ${stack.length === 1 ? 'is' : 'are'} available with takes(${takes})`,
+          token
+        );
+        this.underflowReported = true;
+      }
+      while (stack.length < count) stack.push('?');
+    }
+    return stack.splice(0, count);
+  }
+
+  private push(...items: string[]) {
+    this.stack!.unshift(...items.map(shorten));
+  }
+
+  private effectOf(name: string): StackEffect | null {
+    const definition = this.macros.get(name);
+    return definition ? { takes: definition.takes ?? 0, returns: definition.returns ?? 0 } : null;
+  }
+
+  // Effect of invoking a macro parameter, known when every call site passes macros that agree
+  private argumentEffect(param: string): StackEffect | null {
+    const index = this.macro.params.indexOf(param);
+    const sites = this.callSites.get(this.macro.name) || [];
+    if (index < 0 || sites.length === 0) return null;
+    const effects = sites.map(args => (args[index] ? this.effectOf(args[index]) : null));
+    const first = effects[0];
+    const agree = effects.every(
+      effect => effect && first && effect.takes === first.takes && effect.returns === first.returns
+    );
+    return agree ? first : null;
+  }
+
+  private invoke(name: string, effect: StackEffect | null, token: HuffToken) {
+    if (!effect) {
+      // Unknown effect: stop simulating until a label or stack comment gives the stack again
+      this.stack = null;
+      return;
+    }
+    this.pop(effect.takes, token);
+    const result = effect.returns === 1 ? [`${name}()`] : [];
+    for (let i = 0; i < effect.returns && effect.returns > 1; i++) result.push(`${name}()[${i}]`);
+    this.push(...result);
+  }
+
+  private recordJump(target: HuffToken | undefined) {
+    if (!target || target.kind !== 'identifier' || this.labelStacks.has(target.text)) return;
+    this.labelStacks.set(target.text, [...this.stack!]);
+  }
+
+  label(token: HuffToken) {
+    const name = labelName(token);
+    const incoming = this.terminated ? null : this.stack;
+    const jumped = this.labelStacks.get(name);
+    if (incoming && jumped && incoming.length !== jumped.length) {
+      this.warn(
+        `Stack depth at \`${name}\` is ${incoming.length} when falling through but ` +
+          `${jumped.length} when jumped to`,
+        token
+      );
+    }
+    this.stack = incoming ? incoming : jumped ? [...jumped] : null;
+    this.terminated = false;
+  }
+
+  comment(token: HuffToken, items: string[]) {
+    if (this.terminated) return;
+    if (this.stack && this.stack.length !== items.length) {
+      this.warn(
+        `Stack comment lists ${items.length} item${items.length === 1 ? '' : 's'} but the ` +
+          `simulated stack has ${this.stack.length}: [${this.stack.join(', ')}]`,
+        token
+      );
+    }
+    // The comment's names replace the inferred ones, and also resume after unknown effects
+    this.stack = items;
+  }
+
+  // Simulate code[i] and return the index of the next token to process
+  step(code: HuffToken[], i: number): number {
+    const token = code[i];
+    if (token.kind === 'label') {
+      this.label(token);
+      return i + 1;
+    }
+    if (this.terminated || !this.stack) {
+      // Skip whole invocations so their arguments are not mistaken for code
+      return code[i + 1]?.text === '(' ? closingParen(code, i + 1) + 1 : i + 1;
+    }
+
+    switch (token.kind) {
+      case 'number':
+        this.push(token.text);
+        return i + 1;
+      case 'macroArg': {
+        const param = token.text.slice(1, -1);
+        if (code[i + 1]?.text === '(') {
+          this.invoke(param, this.argumentEffect(param), token);
+          return closingParen(code, i + 1) + 1;
+        }
+        this.push(token.text);
+        return i + 1;
+      }
+      case 'keyword':
+        if (code[i + 1]?.text === '(') {
+          const close = closingParen(code, i + 1);
+          if (VALUE_BUILTINS.has(token.text)) {
+            const argument = code
+              .slice(i + 2, close)
+              .map(t => t.text)
+              .join('');
+            this.push(`${token.text}(${argument})`);
+          } else {
+            this.stack = null;
+          }
+          return close + 1;
+        }
+        return i + 1;
+      case 'bracket':
+        // Constant reference: [NAME]
+        if (token.text === '[' && code[i + 1] && code[i + 2]?.text === ']') {
+          this.push(code[i + 1].text);
+          return i + 3;
+        }
+        return i + 1;
+      case 'identifier':
+        if (code[i + 1]?.text === '(') {
+          this.invoke(token.text, this.effectOf(token.text), token);
+          return closingParen(code, i + 1) + 1;
+        }
+        // Jump labels and other names push a single value
+        this.push(token.text);
+        return i + 1;
+      case 'opcode':
+        return this.opcode(code, i);
+      default:
+        return i + 1;
+    }
+  }
+
+  private opcode(code: HuffToken[], i: number): number {
+    const token = code[i];
+    const info = getOpcodeByName(token.text);
+    if (!info) return i + 1;
+
+    // Explicit pushes such as "push1 0x01" take their value from the next token
+    if (info.immediate > 0 && code[i + 1]?.kind === 'number') {
+      this.push(code[i + 1].text);
+      return i + 2;
+    }
+
+    if (token.text === 'jump' || token.text === 'jumpi') {
+      const target = code[i - 1];
+      this.pop(info.stackIn.length, token);
+      this.recordJump(target);
+    } else {
+      const items = this.pop(info.stackIn.length, token);
+      this.push(...opcodeOutputs(info.stackIn, info.stackOut, items));
+    }
+    if (TERMINATORS.has(token.text)) {
+      this.terminated = true;
+      this.stack = null;
+    }
+    return i + 1;
+  }
+
+  // Check the stack left at the end of the body against returns(n)
+  finish() {
+    const returns = this.macro.returns;
+    if (this.terminated || !this.stack || returns === undefined) return;
+    if (this.stack.length !== returns) {
+      const count = this.stack.length;
+      this.warn(
+        `\`${this.macro.name}\` leaves ${count} item${count === 1 ? '' : 's'} on the stack but ` +
+          `declares returns(${returns}): [${this.stack.join(', ')}]`,
+        { start: this.macro.nameStart, end: this.macro.nameEnd }
+      );
+    }
+  }
+}
+
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) if (source[i] === '\n') starts.push(i + 1);
+  return starts;
+}
+
+function lineOf(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+export function checkStacks(file: ParsedHuffFile, workspace: ParsedHuffFile[]): StackCheckResult {
+  const warnings: StackWarning[] = [];
+  const hints: StackHint[] = [];
+  const starts = lineStarts(file.source);
+
+  // Definitions in the file itself win over same-named ones elsewhere
+  const macros = new Map<string, HuffSymbol>();
+  for (const symbol of [...workspace.flatMap(parsed => parsed.symbols), ...file.symbols]) {
+    if (isMacroLike(symbol)) macros.set(symbol.name, symbol);
+  }
+  const callSites = collectCallSites(workspace.includes(file) ? workspace : [...workspace, file]);
+
+  for (const macro of file.symbols) {
+    if (!isMacroLike(macro) || macro.bodyStart === undefined) continue;
+    const inBody = (token: HuffToken) =>
+      token.start > macro.bodyStart! && token.end < macro.bodyEnd!;
+    const code = codeTokens(file.tokens).filter(inBody);
+    const comments = file.tokens
+      .filter(token => token.kind === 'comment' && inBody(token))
+      .map(token => ({ token, items: parseStackComment(token.text) }))
+      .filter(comment => comment.items !== null);
+    const commentLines = new Set(comments.map(comment => lineOf(starts, comment.token.start)));
+
+    const simulator = new MacroSimulator(macro, macros, callSites, warnings);
+    let nextComment = 0;
+    const applyComments = (before: number) => {
+      while (nextComment < comments.length && comments[nextComment].token.start < before) {
+        simulator.comment(comments[nextComment].token, comments[nextComment].items!);
+        nextComment++;
+      }
+    };
+
+    let i = 0;
+    while (i < code.length) {
+      applyComments(code[i].start);
+      const next = simulator.step(code, i);
+      const line = lineOf(starts, code[next - 1].start);
+      const nextLine = next < code.length ? lineOf(starts, code[next].start) : -1;
+      const stack = simulator.current;
+      if (line !== nextLine && stack && !commentLines.has(line)) {
+        hints.push({ line, stack: [...stack] });
+      }
+      i = next;
+    }
+    applyComments(macro.bodyEnd!);
+    simulator.finish();
+  }
+
+  return { warnings, hints };
+}
@@ -0,0 +1,309 @@
+// Symbol extraction for Huff sources: definitions, labels, references and includes
+import { HuffToken, codeTokens, labelName, tokenize } from './tokenizer';
+
+export type HuffSymbolKind =
+  'macro' | 'fn' | 'test' | 'function' | 'event' | 'error' | 'constant' | 'table' | 'label';
+
+export interface HuffSymbol {
+  kind: HuffSymbolKind;
+  name: string;
+  file: string;
+  // Character offsets of the name and of the whole definition
+  nameStart: number;
+  nameEnd: number;
+  start: number;
+  end: number;
+  // Macro arguments, or ABI parameter types for functions, events and errors
+  params: string[];
+  // Return types of ABI functions
+  outputs?: string[];
+  // Header text after the name, e.g. "() = takes(1) returns(0)"
+  detail: string;
+  takes?: number;
+  returns?: number;
+  // Offsets of the opening and closing braces of macro bodies
+  bodyStart?: number;
+  bodyEnd?: number;
+  // Enclosing macro of a label
+  parent?: string;
+  // Value of a constant
+  value?: string;
+  // State mutability of ABI functions
+  mutability?: string;
+}
+
+export interface HuffReference {
+  name: string;
+  file: string;
+  start: number;
+  end: number;
+  // Enclosing macro, if any
+  scope?: string;
+  // Macro or builtin whose call the reference is an argument of, e.g. "__FUNC_SIG"
+  argumentOf?: string;
+}
+
+export interface HuffInclude {
+  path: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedHuffFile {
+  path: string;
+  source: string;
+  tokens: HuffToken[];
+  symbols: HuffSymbol[];
+  references: HuffReference[];
+  includes: HuffInclude[];
+}
+
+const MACRO_KINDS = new Set(['macro', 'fn', 'test']);
+const ABI_KINDS = new Set(['function', 'event', 'error']);
+const TABLE_KINDS = new Set(['table', 'jumptable', 'jumptable__packed', 'code_table']);
+
+export function isMacroLike(symbol: HuffSymbol): boolean {
+  return MACRO_KINDS.has(symbol.kind);
+}
+
+// Index of the bracket closing the one at tokens[open]
+function findClosing(tokens: HuffToken[], open: number): number {
+  const opening = tokens[open].text;
+  const closing = opening === '(' ? ')' : opening === '{' ? '}' : ']';
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].text === opening) depth++;
+    else if (tokens[i].text === closing && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+// Spell "uint" and "int" out as "uint256" and "int256", as in signatures and the ABI
+export function canonicalIntType(type: string): string {
+  return type.replace(/\b(u?int)(?=$|[[,)])/g, '$1256');
+}
+
+// Strip parameter names and modifiers and canonicalize: "address indexed from" -> "address",
+// "uint amount" -> "uint256"
+export function paramType(raw: string): string {
+  const text = raw.trim().replace(/\s+/g, ' ');
+  if (text.startsWith('(')) {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '(') depth++;
+      else if (text[i] === ')' && --depth === 0) {
+        const suffix = text.slice(i + 1).match(/^(\s*\[\d*\])*/)?.[0] || '';
+        return canonicalIntType((text.slice(0, i + 1) + suffix).replace(/\s/g, ''));
+      }
+    }
+    return canonicalIntType(text.replace(/\s/g, ''));
+  }
+  const match = text.match(/^[a-zA-Z0-9_]+(\s*\[\d*\])*/);
+  return canonicalIntType(match ? match[0].replace(/\s/g, '') : text);
+}
+
+// Split the text between parentheses on top-level commas
+function splitParams(source: string, open: HuffToken, close: HuffToken): string[] {
+  const inner = source.slice(open.end, close.start);
+  const params: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of inner) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      params.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  params.push(current);
+  return params.map(param => param.trim()).filter(Boolean);
+}
+
+// Read "takes(n)" / "returns(n)" starting at tokens[i]
+function readCount(tokens: HuffToken[], i: number, keyword: string): number | undefined {
+  if (tokens[i]?.text !== keyword || tokens[i + 1]?.text !== '(') return undefined;
+  const value = tokens[i + 2]?.text;
+  if (!value) return undefined;
+  const count = value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+  return Number.isNaN(count) ? undefined : count;
+}
+
+export function parseHuffFile(path: string, source: string): ParsedHuffFile {
+  const tokens = tokenize(source);
+  const code = codeTokens(tokens);
+  const symbols: HuffSymbol[] = [];
+  const references: HuffReference[] = [];
+  const includes: HuffInclude[] = [];
+  // Token indices that belong to definition headers rather than being references
+  const headerTokens = new Set<number>();
+
+  let i = 0;
+  while (i < code.length) {
+    const token = code[i];
+
+    if (token.text === '#include' && code[i + 1]?.kind === 'string') {
+      const pathToken = code[i + 1];
+      includes.push({
+        path: pathToken.text.replace(/^"|"$/g, ''),
+        start: pathToken.start,
+        end: pathToken.end,
+      });
+      i += 2;
+      continue;
+    }
+
+    if (token.text !== '#define' || !code[i + 1] || !code[i + 2]) {
+      i++;
+      continue;
+    }
+
+    const kindText = code[i + 1].text;
+    const nameToken = code[i + 2];
+    const kind = (TABLE_KINDS.has(kindText) ? 'table' : kindText) as HuffSymbolKind;
+    if (!MACRO_KINDS.has(kind) && !ABI_KINDS.has(kind) && kind !== 'constant' && kind !== 'table') {
+      i++;
+      continue;
+    }
+    headerTokens.add(i + 2);
+
+    const symbol: HuffSymbol = {
+      kind,
+      name: nameToken.text,
+      file: path,
+      nameStart: nameToken.start,
+      nameEnd: nameToken.end,
+      start: token.start,
+      end: nameToken.end,
+      params: [],
+      detail: '',
+    };
+    const labels: HuffSymbol[] = [];
+    let j = i + 3;
+
+    if (MACRO_KINDS.has(kind)) {
+      if (code[j]?.text === '(') {
+        const close = findClosing(code, j);
+        symbol.params = code
+          .slice(j + 1, close)
+          .filter(t => t.text !== ',')
+          .map(t => t.text);
+        for (let k = j + 1; k < close; k++) headerTokens.add(k);
+        j = close + 1;
+      }
+      if (code[j]?.text === '=') j++;
+      const takes = readCount(code, j, 'takes');
+      if (takes !== undefined) {
+        symbol.takes = takes;
+        j += 4;
+      }
+      const returns = readCount(code, j, 'returns');
+      if (returns !== undefined) {
+        symbol.returns = returns;
+        j += 4;
+      }
+      if (code[j]?.text === '{') {
+        const close = findClosing(code, j);
+        symbol.detail = source.slice(nameToken.end, code[j].start).trim();
+        symbol.bodyStart = code[j].start;
+        symbol.bodyEnd = code[close].end;
+        symbol.end = code[close].end;
+
+        // Names of the calls whose parentheses are open
+        const calls: string[] = [];
+        for (let k = j + 1; k < close; k++) {
+          if (code[k].text === '(') calls.push(code[k - 1].text);
+          else if (code[k].text === ')') calls.pop();
+          if (code[k].kind === 'label') {
+            labels.push({
+              kind: 'label',
+              name: labelName(code[k]),
+              file: path,
+              nameStart: code[k].start,
+              nameEnd: code[k].end - 1,
+              start: code[k].start,
+              end: code[k].end,
+              params: [],
+              detail: `label in ${symbol.name}`,
+              parent: symbol.name,
+            });
+          } else if (code[k].kind === 'identifier') {
+            references.push({
+              name: code[k].text,
+              file: path,
+              start: code[k].start,
+              end: code[k].end,
+              scope: symbol.name,
+              argumentOf: calls[calls.length - 1],
+            });
+          }
+        }
+        j = close + 1;
+      } else {
+        symbol.detail = source.slice(nameToken.end, code[j - 1]?.end ?? nameToken.end).trim();
+        symbol.end = code[j - 1]?.end ?? nameToken.end;
+      }
+    } else if (ABI_KINDS.has(kind)) {
+      if (code[j]?.text === '(') {
+        const close = findClosing(code, j);
+        symbol.params = splitParams(source, code[j], code[close]).map(paramType);
+        j = close + 1;
+        while (code[j] && ['view', 'pure', 'payable', 'nonpayable'].includes(code[j].text)) {
+          symbol.mutability = code[j].text;
+          j++;
+        }
+        if (code[j]?.text === 'returns' && code[j + 1]?.text === '(') {
+          const returnsClose = findClosing(code, j + 1);
+          symbol.outputs = splitParams(source, code[j + 1], code[returnsClose]).map(paramType);
+          j = returnsClose + 1;
+        }
+        if (code[j]?.text === 'anonymous') j++;
+      }
+      // Parameter names are not references
+      for (let k = i + 3; k < j; k++) headerTokens.add(k);
+      symbol.end = code[j - 1].end;
+      symbol.detail = source.slice(nameToken.end, symbol.end).trim();
+    } else if (kind === 'constant') {
+      if (code[j]?.text === '=' && code[j + 1]) {
+        let last = j + 1;
+        // FREE_STORAGE_POINTER() and similar calls
+        if (code[last + 1]?.text === '(') last = findClosing(code, last + 1);
+        symbol.value = source.slice(code[j + 1].start, code[last].end);
+        symbol.end = code[last].end;
+        j = last + 1;
+      }
+      symbol.detail = symbol.value ? `= ${symbol.value}` : '';
+    } else {
+      // Tables: keep the header and skip the body
+      if (code[j]?.text === '{') {
+        const close = findClosing(code, j);
+        symbol.end = code[close].end;
+        j = close + 1;
+      }
+      symbol.detail = kindText;
+    }
+
+    symbols.push(symbol, ...labels);
+    i = Math.max(j, i + 3);
+  }
+
+  // Identifiers outside macro bodies (e.g. constants used in other constants)
+  const seen = new Set(references.map(ref => ref.start));
+  code.forEach((token, index) => {
+    if (token.kind !== 'identifier' || headerTokens.has(index) || seen.has(token.start)) return;
+    if (token.text.startsWith('#')) return;
+    references.push({ name: token.text, file: path, start: token.start, end: token.end });
+  });
+  references.sort((a, b) => a.start - b.start);
+
+  return { path, source, tokens, symbols, references, includes };
+}
+
+// Innermost macro-like definition containing the offset
+export function findEnclosingMacro(symbols: HuffSymbol[], offset: number): HuffSymbol | undefined {
+  return symbols.find(
+    symbol => isMacroLike(symbol) && symbol.start <= offset && offset <= symbol.end
+  );
+}
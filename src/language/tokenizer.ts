@@ -0,0 +1,94 @@
+// Huff tokenizer mirroring the Monarch rules in huffLanguage, for language features that need
+// to understand the source (completion, navigation, linting, formatting)
+import { huffLanguage } from '../huffLanguage';
+
+export type HuffTokenKind =
+  | 'comment'
+  | 'keyword'
+  | 'opcode'
+  | 'type'
+  | 'number'
+  | 'identifier'
+  | 'label'
+  | 'macroArg'
+  | 'string'
+  | 'bracket'
+  | 'operator';
+
+export interface HuffToken {
+  kind: HuffTokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export const HUFF_KEYWORDS = new Set<string>(huffLanguage.keywords as string[]);
+export const HUFF_OPCODES = new Set<string>(huffLanguage.opcodes as string[]);
+export const HUFF_TYPES = new Set<string>(huffLanguage.types as string[]);
+
+// Builtin functions such as __FUNC_SIG and __EVENT_HASH
+export const HUFF_BUILTINS = (huffLanguage.keywords as string[]).filter(
+  keyword => keyword.startsWith('__') || keyword === 'FREE_STORAGE_POINTER'
+);
+
+// Same order as the Monarch root state: the first matching rule wins
+const RULES: [RegExp, HuffTokenKind | null][] = [
+  [/\/\/[^\n]*/y, 'comment'],
+  [/\/\*[\s\S]*?(\*\/|$)/y, 'comment'],
+  [/0x[0-9a-fA-F]+/y, 'number'],
+  [/\d+/y, 'number'],
+  [/<\w+>/y, 'macroArg'],
+  [/\w+:/y, 'label'],
+  [/[a-zA-Z_#]\w*/y, 'identifier'],
+  [/[{}()[\]]/y, 'bracket'],
+  [/"([^"\\\n]|\\.)*"?/y, 'string'],
+  [/\s+/y, null],
+];
+
+function classifyWord(word: string): HuffTokenKind {
+  if (HUFF_KEYWORDS.has(word)) return 'keyword';
+  if (HUFF_OPCODES.has(word)) return 'opcode';
+  if (HUFF_TYPES.has(word)) return 'type';
+  return 'identifier';
+}
+
+export function tokenize(source: string): HuffToken[] {
+  const tokens: HuffToken[] = [];
+  let pos = 0;
+
+  outer: while (pos < source.length) {
+    for (const [pattern, kind] of RULES) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(source);
+      if (!match || match[0].length === 0) continue;
+
+      const text = match[0];
+      if (kind) {
+        tokens.push({
+          kind: kind === 'identifier' ? classifyWord(text) : kind,
+          text,
+          start: pos,
+          end: pos + text.length,
+        });
+      }
+      pos += text.length;
+      continue outer;
+    }
+
+    // Anything else is a single-character operator (=, <, >, comma, ...)
+    tokens.push({ kind: 'operator', text: source[pos], start: pos, end: pos + 1 });
+    pos++;
+  }
+
+  return tokens;
+}
+
+// Tokens without comments, for parsing
+export function codeTokens(tokens: HuffToken[]): HuffToken[] {
+  return tokens.filter(token => token.kind !== 'comment');
+}
+
+// Label definitions are tokenized with their colon
+export function labelName(token: HuffToken): string {
+  return token.text.slice(0, -1);
+}
@@ -0,0 +1,117 @@
+// Parsed view of every Huff file in the workspace, shared by the Monaco language providers
+import * as monaco from 'monaco-editor';
+import { HuffReference, HuffSymbol, ParsedHuffFile, parseHuffFile } from './symbols';
+
+// Workspace path of an #include, relative to the including file or else to the workspace root
+function resolveIncludePath(from: string, include: string, exists: (path: string) => boolean) {
+  const resolve = (base: string[]) => {
+    const parts = [...base];
+    for (const segment of include.split('/')) {
+      if (segment === '..') parts.pop();
+      else if (segment !== '.' && segment !== '') parts.push(segment);
+    }
+    return parts.join('/');
+  };
+  const relative = resolve(from.split('/').slice(0, -1));
+  return exists(relative) ? relative : resolve([]);
+}
+
+export class HuffWorkspaceIndex {
+  private files = new Map<string, ParsedHuffFile>();
+  // Path of the file open in the editor
+  activePath: string | null = null;
+
+  // Replace the set of workspace files, re-parsing only those whose content changed
+  update(files: Map<string, string>) {
+    const next = new Map<string, ParsedHuffFile>();
+    for (const [path, source] of files) {
+      const existing = this.files.get(path);
+      next.set(
+        path,
+        existing && existing.source === source ? existing : parseHuffFile(path, source)
+      );
+    }
+    this.files = next;
+  }
+
+  // Update a single file, e.g. with the live content of an editor model
+  updateFile(path: string, source: string): ParsedHuffFile {
+    const existing = this.files.get(path);
+    if (existing && existing.source === source) return existing;
+    const parsed = parseHuffFile(path, source);
+    this.files.set(path, parsed);
+    return parsed;
+  }
+
+  // Workspace path of an editor model: file:// models carry their path, others are the open file
+  pathForModel(model: monaco.editor.ITextModel): string {
+    if (model.uri.scheme === 'file') return model.uri.path.replace(/^\//, '');
+    return this.activePath || model.uri.toString();
+  }
+
+  // Parse the live content of an editor model
+  getModelFile(model: monaco.editor.ITextModel): ParsedHuffFile {
+    return this.updateFile(this.pathForModel(model), model.getValue());
+  }
+
+  getFile(path: string): ParsedHuffFile | undefined {
+    return this.files.get(path);
+  }
+
+  getFiles(): ParsedHuffFile[] {
+    return [...this.files.values()];
+  }
+
+  // A file and every file it includes, directly or transitively
+  getIncludedFiles(path: string): ParsedHuffFile[] {
+    const result: ParsedHuffFile[] = [];
+    const visit = (current: string) => {
+      const file = this.files.get(current);
+      if (!file || result.includes(file)) return;
+      result.push(file);
+      for (const include of file.includes) {
+        visit(resolveIncludePath(current, include.path, candidate => this.files.has(candidate)));
+      }
+    };
+    visit(path);
+    return result;
+  }
+
+  // Files compiled together with a file: the files it includes, and every file that includes it
+  // directly or transitively along with their own includes. A file outside any #include chain
+  // only relates to itself and its includes.
+  getRelatedFiles(path: string): ParsedHuffFile[] {
+    const roots = [path];
+    for (let i = 0; i < roots.length; i++) {
+      for (const file of this.files.values()) {
+        if (roots.includes(file.path)) continue;
+        const includesRoot = file.includes.some(
+          include =>
+            resolveIncludePath(file.path, include.path, candidate => this.files.has(candidate)) ===
+            roots[i]
+        );
+        if (includesRoot) roots.push(file.path);
+      }
+    }
+    const result = new Set<ParsedHuffFile>();
+    for (const root of roots) {
+      for (const file of this.getIncludedFiles(root)) result.add(file);
+    }
+    return [...result];
+  }
+
+  getSymbols(): HuffSymbol[] {
+    return this.getFiles().flatMap(file => file.symbols);
+  }
+
+  getReferences(): HuffReference[] {
+    return this.getFiles().flatMap(file => file.references);
+  }
+
+  // Top-level definitions (everything except labels) with the given name
+  findDefinitions(name: string): HuffSymbol[] {
+    return this.getSymbols().filter(symbol => symbol.kind !== 'label' && symbol.name === name);
+  }
+}
+
+export const huffWorkspace = new HuffWorkspaceIndex();
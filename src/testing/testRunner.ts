@@ -0,0 +1,167 @@
+// Runs `#define test` blocks: each test is compiled as the MAIN macro and executed in the local EVM
+import { CompilerClient } from '../compiler/compilerClient';
+import { CompileSettings } from '../compiler/types';
+import {
+  DEFAULT_CALLER,
+  DEFAULT_CONTRACT_ADDRESS,
+  DEFAULT_GAS_LIMIT,
+  executeTransaction,
+  parseAddress,
+  parseQuantity,
+} from '../evm/execution';
+import { ParsedHuffFile, parseHuffFile } from '../language/symbols';
+
+export interface HuffTest {
+  name: string;
+  file: string;
+  // Offsets of the `#define` and of the test name
+  start: number;
+  nameStart: number;
+  // From the #[calldata("0x..."), value(0x...)] decorator
+  calldata: string;
+  value: bigint;
+}
+
+export type TestStatus = 'passed' | 'failed' | 'error';
+
+export interface TestResult {
+  status: TestStatus;
+  // Execution gas, without the intrinsic transaction cost
+  gasUsed?: number;
+  // Revert data of failed tests
+  revertData?: string;
+  error?: string;
+}
+
+// Unique key of a test in the workspace
+export function testKey(test: HuffTest): string {
+  return `${test.file}:${test.name}`;
+}
+
+// Decorator directly in front of a definition, e.g. #[calldata("0x01"), value(1)]
+const DECORATOR = /#\[([^\]]*)\]\s*$/;
+
+function readDecorator(source: string, start: number): { calldata: string; value: bigint } {
+  const match = DECORATOR.exec(source.slice(0, start));
+  const body = match?.[1] || '';
+  const calldata = /calldata\(\s*"([^"]*)"\s*\)/.exec(body)?.[1] || '0x';
+  const value = /value\(\s*([^)\s]+)\s*\)/.exec(body)?.[1];
+  let parsedValue = 0n;
+  try {
+    parsedValue = value ? parseQuantity(value, 'value') : 0n;
+  } catch {
+    // An unreadable value runs the test without one
+  }
+  return { calldata, value: parsedValue };
+}
+
+export function findTests(files: ParsedHuffFile[]): HuffTest[] {
+  const tests: HuffTest[] = [];
+  for (const file of files) {
+    for (const symbol of file.symbols) {
+      if (symbol.kind !== 'test') continue;
+      tests.push({
+        name: symbol.name,
+        file: file.path,
+        start: symbol.start,
+        nameStart: symbol.nameStart,
+        ...readDecorator(file.source, symbol.start),
+      });
+    }
+  }
+  return tests;
+}
+
+// The file with its tests turned into macros and their decorators removed, so that any of them
+// can be compiled as the alternative MAIN
+export function testableSource(source: string, tests: HuffTest[]): string {
+  let result = source;
+  for (const test of [...tests].sort((a, b) => b.start - a.start)) {
+    const header = /^#define\s+test\b/.exec(result.slice(test.start));
+    if (!header) continue;
+    let start = test.start;
+    const decorator = DECORATOR.exec(result.slice(0, test.start));
+    if (decorator) start = decorator.index;
+    result =
+      result.slice(0, start) +
+      header[0].replace(/test$/, 'macro') +
+      result.slice(test.start + header[0].length);
+  }
+  return result;
+}
+
+export class TestRunner {
+  // Separate from the editor's compiler, so running tests never supersedes a live compile
+  private compiler = new CompilerClient();
+  private runId = 0;
+
+  // Run tests one after another, reporting each result as it completes.
+  // Starting another run or calling cancel() stops the current one.
+  async run(
+    tests: HuffTest[],
+    files: Map<string, string>,
+    settings: CompileSettings,
+    onResult: (test: HuffTest, result: TestResult) => void
+  ): Promise<void> {
+    const id = ++this.runId;
+    for (const test of tests) {
+      const result = await this.runTest(test, files, settings);
+      if (id !== this.runId) return;
+      onResult(test, result);
+    }
+  }
+
+  cancel() {
+    this.runId++;
+    this.compiler.cancel();
+  }
+
+  private async runTest(
+    test: HuffTest,
+    files: Map<string, string>,
+    settings: CompileSettings
+  ): Promise<TestResult> {
+    const source = files.get(test.file);
+    if (source === undefined) return { status: 'error', error: 'File not found' };
+
+    const testFiles = new Map(files);
+    testFiles.set(test.file, testableSource(source, findTests([parseHuffFile(test.file, source)])));
+
+    const compiled = await this.compiler.compile(test.file, testFiles, {
+      ...settings,
+      constructArgs: [],
+      alternativeMain: test.name,
+      alternativeConstructor: '',
+    });
+    if (!compiled) return { status: 'error', error: 'Cancelled' };
+    if (!compiled.success || !compiled.runtime) {
+      return { status: 'error', error: compiled.errors?.join('\n') || 'Compilation failed' };
+    }
+
+    try {
+      const result = executeTransaction({
+        code: compiled.runtime,
+        calldata: test.calldata,
+        callvalue: test.value,
+        caller: parseAddress(DEFAULT_CALLER),
+        address: parseAddress(DEFAULT_CONTRACT_ADDRESS),
+        gasLimit: DEFAULT_GAS_LIMIT,
+        storage: new Map(),
+        balance: 0n,
+        evmVersion: settings.evmVersion,
+        isDeployment: false,
+      });
+      const passed = result.status === 'returned' || result.status === 'stopped';
+      return {
+        status: passed ? 'passed' : 'failed',
+        gasUsed: result.executionGas,
+        revertData: result.status === 'reverted' ? result.output : undefined,
+        error: result.error,
+      };
+    } catch (error) {
+      return { status: 'error', error: (error as Error).message };
+    }
+  }
+}
+
+export const testRunner = new TestRunner();
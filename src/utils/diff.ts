@@ -0,0 +1,125 @@
+// Shortest edit script between two sequences, using Myers' O(ND) algorithm
+export type DiffOp = 'equal' | 'delete' | 'insert';
+
+export interface DiffEdit {
+  op: DiffOp;
+  // Index into the first sequence, for 'equal' and 'delete'
+  aIndex?: number;
+  // Index into the second sequence, for 'equal' and 'insert'
+  bIndex?: number;
+}
+
+// The search keeps a snapshot per edit, so very different inputs fall back to replacing
+// the whole middle instead of exhausting memory
+const MAX_EDIT_DISTANCE = 3000;
+
+export function diffSequences<T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y
+): DiffEdit[] {
+  // Common prefix and suffix are matched directly to keep the search small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const head: DiffEdit[] = Array.from({ length: prefix }, (_, i) => ({
+    op: 'equal',
+    aIndex: i,
+    bIndex: i,
+  }));
+  const tail: DiffEdit[] = Array.from({ length: suffix }, (_, i) => ({
+    op: 'equal',
+    aIndex: a.length - suffix + i,
+    bIndex: b.length - suffix + i,
+  }));
+
+  return [...head, ...diffMiddle(a, b, prefix, n, m, equals), ...tail];
+}
+
+function diffMiddle<T>(
+  a: T[],
+  b: T[],
+  prefix: number,
+  n: number,
+  m: number,
+  equals: (x: T, y: T) => boolean
+): DiffEdit[] {
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x per diagonal k in [-d, d] before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[prefix + x], b[prefix + y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m, prefix);
+    }
+  }
+
+  const deletes: DiffEdit[] = Array.from({ length: n }, (_, i) => ({
+    op: 'delete',
+    aIndex: prefix + i,
+  }));
+  const inserts: DiffEdit[] = Array.from({ length: m }, (_, i) => ({
+    op: 'insert',
+    bIndex: prefix + i,
+  }));
+  return [...deletes, ...inserts];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number, prefix: number): DiffEdit[] {
+  const edits: DiffEdit[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    // Snapshots are centred on diagonal 0
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      edits.push({ op: 'equal', aIndex: prefix + x, bIndex: prefix + y });
+    }
+    if (x === previousX) {
+      edits.push({ op: 'insert', bIndex: prefix + previousY });
+    } else {
+      edits.push({ op: 'delete', aIndex: prefix + previousX });
+    }
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    edits.push({ op: 'equal', aIndex: prefix + x, bIndex: prefix + y });
+  }
+
+  return edits.reverse();
+}
@@ -0,0 +1,10 @@
+// Trigger a browser download for generated content
+export function downloadFile(data: string | Uint8Array, fileName: string, type: string) {
+  const part = typeof data === 'string' ? data : new Uint8Array(data);
+  const url = URL.createObjectURL(new Blob([part], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
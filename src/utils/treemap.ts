@@ -0,0 +1,82 @@
+// Squarified treemap layout: rectangles with areas proportional to their values and aspect ratios
+// kept close to 1
+export interface TreemapItem<T> {
+  value: number;
+  data: T;
+}
+
+export interface TreemapRect<T> extends TreemapItem<T> {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Worst aspect ratio of a row of areas laid along a side of the given length
+function worstRatio(areas: number[], side: number): number {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+}
+
+function layoutRow<T>(row: TreemapItem<T>[], areas: number[], box: Box, result: TreemapRect<T>[]) {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const horizontal = box.width >= box.height;
+  // The row fills the shorter side of the box
+  const thickness = horizontal ? sum / box.height : sum / box.width;
+  let offset = 0;
+  row.forEach((item, i) => {
+    const length = areas[i] / thickness;
+    result.push(
+      horizontal
+        ? { ...item, x: box.x, y: box.y + offset, width: thickness, height: length }
+        : { ...item, x: box.x + offset, y: box.y, width: length, height: thickness }
+    );
+    offset += length;
+  });
+  if (horizontal) {
+    box.x += thickness;
+    box.width -= thickness;
+  } else {
+    box.y += thickness;
+    box.height -= thickness;
+  }
+}
+
+export function squarify<T>(
+  items: TreemapItem<T>[],
+  width: number,
+  height: number
+): TreemapRect<T>[] {
+  const sorted = items.filter(item => item.value > 0).sort((a, b) => b.value - a.value);
+  const total = sorted.reduce((sum, item) => sum + item.value, 0);
+  const result: TreemapRect<T>[] = [];
+  if (total === 0 || width <= 0 || height <= 0) return result;
+
+  const scale = (width * height) / total;
+  const box: Box = { x: 0, y: 0, width, height };
+  let row: TreemapItem<T>[] = [];
+  let areas: number[] = [];
+
+  for (const item of sorted) {
+    const area = item.value * scale;
+    const side = Math.min(box.width, box.height);
+    if (row.length > 0 && worstRatio([...areas, area], side) > worstRatio(areas, side)) {
+      layoutRow(row, areas, box, result);
+      row = [];
+      areas = [];
+    }
+    row.push(item);
+    areas.push(area);
+  }
+  if (row.length > 0) layoutRow(row, areas, box, result);
+  return result;
+}
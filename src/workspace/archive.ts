@@ -0,0 +1,170 @@
+// Zip import/export of the workspace file tree
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { FileNode } from '../components/FileTree';
+import { CompileResult } from '../compiler/types';
+import { createNodeId } from './fileUtils';
+
+export const ARTIFACTS_FOLDER = 'artifacts';
+
+export interface ImportedFile {
+  path: string;
+  content: string;
+}
+
+export type ConflictResolution = 'overwrite' | 'rename' | 'skip';
+
+function addNodesToZip(nodes: FileNode[], prefix: string, zip: Zippable) {
+  for (const node of nodes) {
+    const path = prefix ? `${prefix}/${node.name}` : node.name;
+    if (node.type === 'file') {
+      zip[path] = strToU8(node.content || '');
+    } else if (node.children && node.children.length > 0) {
+      addNodesToZip(node.children, path, zip);
+    } else {
+      // Keep empty folders
+      zip[`${path}/`] = new Uint8Array(0);
+    }
+  }
+}
+
+// Zip the file tree with folders kept, plus the artifacts of the last compilation
+export function exportWorkspaceZip(
+  nodes: FileNode[],
+  artifact?: { path: string; result: CompileResult }
+): Uint8Array {
+  const zip: Zippable = {};
+  addNodesToZip(nodes, '', zip);
+
+  if (artifact?.result.success) {
+    const { bytecode, runtime, abi, constructor_map, runtime_map } = artifact.result;
+    const name = artifact.path.replace(/\.huff$/, '');
+    zip[`${ARTIFACTS_FOLDER}/${name}.json`] = strToU8(
+      JSON.stringify({ bytecode, runtime, abi, constructor_map, runtime_map }, null, 2)
+    );
+  }
+
+  return zipSync(zip, { level: 6 });
+}
+
+// Read the .huff files from a zip archive, ignoring exported artifacts and other files
+export function readWorkspaceZip(data: Uint8Array): ImportedFile[] {
+  const entries = unzipSync(data, {
+    filter: file => file.name.endsWith('.huff') && !file.name.startsWith('__MACOSX/'),
+  });
+  return Object.entries(entries).map(([path, bytes]) => ({
+    path: path.replace(/^\.?\/+/, ''),
+    content: strFromU8(bytes),
+  }));
+}
+
+function findChild(nodes: FileNode[], name: string): FileNode | undefined {
+  return nodes.find(node => node.name === name);
+}
+
+// Resolve a folder-relative path to a node, starting from the given nodes
+function findByPath(nodes: FileNode[], path: string): FileNode | undefined {
+  const [head, ...rest] = path.split('/');
+  const node = findChild(nodes, head);
+  if (!node || rest.length === 0) return node;
+  return node.children ? findByPath(node.children, rest.join('/')) : undefined;
+}
+
+// Paths of imported files that already exist in the target folder
+export function findImportConflicts(targetNodes: FileNode[], imported: ImportedFile[]): string[] {
+  return imported.filter(file => findByPath(targetNodes, file.path)).map(file => file.path);
+}
+
+// Pick a name like "Counter (2).huff" that is not taken yet
+function uniqueName(nodes: FileNode[], name: string): string {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let i = 2; findChild(nodes, candidate); i++) {
+    candidate = `${base} (${i})${ext}`;
+  }
+  return candidate;
+}
+
+// Folders created under a new name because a file had theirs, by imported folder path, so the
+// rest of the import lands in the same folder
+type RenamedFolders = Map<string, string>;
+
+function insertFile(
+  nodes: FileNode[],
+  segments: string[],
+  content: string,
+  resolution: ConflictResolution | undefined,
+  renamed: RenamedFolders,
+  prefix = ''
+): FileNode[] {
+  const [name, ...rest] = segments;
+
+  if (rest.length > 0) {
+    const path = prefix ? `${prefix}/${name}` : name;
+    const folderName = renamed.get(path) ?? name;
+    const folder = findChild(nodes, folderName);
+    if (folder && folder.type === 'folder') {
+      return nodes.map(node =>
+        node === folder
+          ? {
+              ...node,
+              children: insertFile(node.children || [], rest, content, resolution, renamed, path),
+            }
+          : node
+      );
+    }
+    const newName = folder ? uniqueName(nodes, name) : name;
+    if (newName !== name) renamed.set(path, newName);
+    const newFolder: FileNode = {
+      id: createNodeId(),
+      name: newName,
+      type: 'folder',
+      isOpen: true,
+      children: insertFile([], rest, content, resolution, renamed, path),
+    };
+    return [...nodes, newFolder];
+  }
+
+  const existing = findChild(nodes, name);
+  if (existing && existing.type === 'file') {
+    if (resolution === 'skip') return nodes;
+    if (resolution === 'overwrite') {
+      return nodes.map(node => (node === existing ? { ...node, content } : node));
+    }
+  }
+  const newFile: FileNode = {
+    id: createNodeId(),
+    name: existing ? uniqueName(nodes, name) : name,
+    type: 'file',
+    content,
+  };
+  return [...nodes, newFile];
+}
+
+// Merge imported files into the tree under the given folder (or the root)
+export function mergeImportedFiles(
+  nodes: FileNode[],
+  parentId: string | null,
+  imported: ImportedFile[],
+  resolutions: Record<string, ConflictResolution> = {}
+): FileNode[] {
+  const renamed: RenamedFolders = new Map();
+  const mergeInto = (children: FileNode[]) =>
+    imported.reduce(
+      (acc, file) =>
+        insertFile(acc, file.path.split('/'), file.content, resolutions[file.path], renamed),
+      children
+    );
+
+  if (!parentId) return mergeInto(nodes);
+
+  const update = (list: FileNode[]): FileNode[] =>
+    list.map(node => {
+      if (node.id === parentId && node.type === 'folder') {
+        return { ...node, isOpen: true, children: mergeInto(node.children || []) };
+      }
+      return node.children ? { ...node, children: update(node.children) } : node;
+    });
+  return update(nodes);
+}
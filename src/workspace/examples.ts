@@ -0,0 +1,121 @@
+import { FileNode } from '../components/FileTree';
+
+// Sample files for new workspaces and "reset to examples"
+export const exampleFiles: FileNode[] = [
+  {
+    id: '1',
+    name: 'SimpleStore.huff',
+    type: 'file',
+    content: `// Simple Storage Contract
+#define constant VALUE_SLOT = FREE_STORAGE_POINTER()
+
+// Interface
+#define function setValue(uint256) nonpayable returns ()
+#define function getValue() view returns (uint256)
+
+// Store value
+#define macro SET_VALUE() = takes(1) returns(0) {
+    [VALUE_SLOT] sstore
+}
+
+// Load value  
+#define macro GET_VALUE() = takes(0) returns(1) {
+    [VALUE_SLOT] sload
+}
+
+// Main dispatch
+#define macro MAIN() = takes(0) returns(0) {
+    // Load function selector
+    0x00 calldataload 0xe0 shr
+    
+    // Dispatch
+    dup1 __FUNC_SIG(setValue) eq set_value jumpi
+    dup1 __FUNC_SIG(getValue) eq get_value jumpi
+    
+    // Revert if no match
+    0x00 0x00 revert
+    
+    set_value:
+        0x04 calldataload
+        SET_VALUE()
+        stop
+        
+    get_value:
+        GET_VALUE()
+        0x00 mstore
+        0x20 0x00 return
+}`,
+  },
+  {
+    id: '2',
+    name: 'examples',
+    type: 'folder',
+    isOpen: true,
+    children: [
+      {
+        id: '3',
+        name: 'Counter.huff',
+        type: 'file',
+        content: `// Counter Contract
+#define constant COUNTER = FREE_STORAGE_POINTER()
+
+#define function increment() nonpayable returns ()
+#define function getCount() view returns (uint256)
+
+#define macro INCREMENT() = takes(0) returns(0) {
+    [COUNTER] sload     // [count]
+    0x01 add           // [count + 1]
+    [COUNTER] sstore   // []
+}
+
+#define macro GET_COUNT() = takes(0) returns(1) {
+    [COUNTER] sload    // [count]
+}
+
+#define macro MAIN() = takes(0) returns(0) {
+    0x00 calldataload 0xe0 shr
+    
+    dup1 __FUNC_SIG(increment) eq increment jumpi
+    dup1 __FUNC_SIG(getCount) eq get_count jumpi
+    
+    0x00 0x00 revert
+    
+    increment:
+        INCREMENT()
+        stop
+        
+    get_count:
+        GET_COUNT()
+        0x00 mstore
+        0x20 0x00 return
+}`,
+      },
+      {
+        id: '4',
+        name: 'MacroArgs.huff',
+        type: 'file',
+        content: `// First-class macro arguments example (v1.3.0)
+#define macro ADD() = takes(2) returns(1) {
+    add
+}
+
+#define macro MUL() = takes(2) returns(1) {
+    mul
+}
+
+// Pass macro as argument
+#define macro APPLY_OP(op) = takes(0) returns(1) {
+    0x10
+    0x20
+    <op>()  // Invoke the macro passed as argument
+}
+
+#define macro MAIN() = takes(0) returns(0) {
+    APPLY_OP(ADD)  // Results in: 0x10 + 0x20 = 0x30
+    0x00 mstore
+    0x20 0x00 return
+}`,
+      },
+    ],
+  },
+];
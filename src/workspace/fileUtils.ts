@@ -0,0 +1,59 @@
+import { FileNode } from '../components/FileTree';
+
+let idCounter = 0;
+
+// Unique id for new nodes, even when several are created in the same millisecond
+export function createNodeId(): string {
+  idCounter += 1;
+  return `${Date.now()}-${idCounter}`;
+}
+
+// Find a node anywhere in the tree by id
+export function findNodeById(nodes: FileNode[], id: string): FileNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    if (node.children) {
+      const found = findNodeById(node.children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// Folder-relative path of a node, e.g. "examples/Counter.huff"
+export function getNodePath(nodes: FileNode[], id: string, prefix: string = ''): string | null {
+  for (const node of nodes) {
+    const path = prefix ? `${prefix}/${node.name}` : node.name;
+    if (node.id === id) return path;
+    if (node.children) {
+      const found = getNodePath(node.children, id, path);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// Find a node by its folder-relative path
+export function findNodeByPath(nodes: FileNode[], path: string): FileNode | null {
+  const [head, ...rest] = path.replace(/^\.\//, '').split('/');
+  const node = nodes.find(n => n.name === head);
+  if (!node || rest.length === 0) return node || null;
+  return node.children ? findNodeByPath(node.children, rest.join('/')) : null;
+}
+
+// Collect every file in the workspace keyed by its folder-relative path
+export function collectWorkspaceFiles(
+  nodes: FileNode[],
+  prefix: string = '',
+  result: Map<string, string> = new Map()
+): Map<string, string> {
+  for (const node of nodes) {
+    const path = prefix ? `${prefix}/${node.name}` : node.name;
+    if (node.type === 'file') {
+      result.set(path, node.content || '');
+    } else if (node.children) {
+      collectWorkspaceFiles(node.children, path, result);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,76 @@
+// Shareable permalinks: the workspace is deflated and base64url-encoded into the URL fragment
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { FileNode } from '../components/FileTree';
+import { WorkspaceSettings, defaultSettings } from './storage';
+
+export const SHARE_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+
+// Most browsers and chat clients cope with URLs up to this length
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export interface SharedWorkspace {
+  files: FileNode[];
+  selectedFile: string | null;
+  settings: WorkspaceSettings;
+}
+
+interface SharePayload extends SharedWorkspace {
+  v: number;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return window.btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = window.atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeWorkspace(workspace: SharedWorkspace): string {
+  const payload: SharePayload = { v: SHARE_VERSION, ...workspace };
+  return toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }));
+}
+
+export function decodeWorkspace(encoded: string): SharedWorkspace | null {
+  try {
+    const payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded)))) as SharePayload;
+    if (payload.v !== SHARE_VERSION || !Array.isArray(payload.files)) return null;
+    return {
+      files: payload.files,
+      selectedFile: payload.selectedFile ?? null,
+      settings: { ...defaultSettings, ...payload.settings },
+    };
+  } catch (error) {
+    console.error('Failed to decode shared workspace:', error);
+    return null;
+  }
+}
+
+// Build a permalink for the workspace, or null if it would be too long to share reliably
+export function buildShareUrl(workspace: SharedWorkspace): { url: string | null; length: number } {
+  const base = window.location.href.split('#')[0];
+  const url = `${base}${SHARE_PREFIX}${encodeWorkspace(workspace)}`;
+  return { url: url.length <= MAX_SHARE_URL_LENGTH ? url : null, length: url.length };
+}
+
+export function readSharedWorkspace(): SharedWorkspace | null {
+  const hash = window.location.hash;
+  if (!hash.startsWith(SHARE_PREFIX)) return null;
+  return decodeWorkspace(hash.slice(SHARE_PREFIX.length));
+}
+
+// Drop the payload from the address bar once it has been imported
+export function clearShareFragment() {
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+}
@@ -0,0 +1,116 @@
+// Workspace persistence backed by IndexedDB
+import { FileNode } from '../components/FileTree';
+import { CompileResult, CompileSettings, defaultCompileSettings } from '../compiler/types';
+import { SizeLimits, defaultSizeLimits } from '../evm/sizeLimits';
+import { LintSettings, defaultLintSettings } from '../language/lint';
+
+const DB_NAME = 'huff-neo-web';
+const DB_VERSION = 1;
+const WORKSPACES_STORE = 'workspaces';
+const META_STORE = 'meta';
+const ACTIVE_WORKSPACE_KEY = 'activeWorkspace';
+
+export const DEFAULT_WORKSPACE = 'default';
+
+export interface WorkspaceSettings {
+  autoCompile: boolean;
+  showRuntime: boolean;
+  compile: CompileSettings;
+  sizeLimits: SizeLimits;
+  lint: LintSettings;
+}
+
+export interface WorkspaceState {
+  name: string;
+  files: FileNode[];
+  selectedFile: string | null;
+  settings: WorkspaceSettings;
+  compileResult: CompileResult | null;
+  updatedAt: number;
+}
+
+export const defaultSettings: WorkspaceSettings = {
+  autoCompile: true,
+  showRuntime: true,
+  compile: defaultCompileSettings,
+  sizeLimits: defaultSizeLimits,
+  lint: defaultLintSettings,
+};
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class WorkspaceStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(WORKSPACES_STORE)) {
+            db.createObjectStore(WORKSPACES_STORE, { keyPath: 'name' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later retry if opening failed (e.g. private browsing)
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async listWorkspaces(): Promise<string[]> {
+    const store = await this.store(WORKSPACES_STORE, 'readonly');
+    const keys = await promisify(store.getAllKeys());
+    return keys.map(String).sort();
+  }
+
+  async loadWorkspace(name: string): Promise<WorkspaceState | null> {
+    const store = await this.store(WORKSPACES_STORE, 'readonly');
+    const state = await promisify<WorkspaceState | undefined>(store.get(name));
+    if (!state) return null;
+    // Fill in settings added after the workspace was saved
+    return { ...state, settings: { ...defaultSettings, ...state.settings } };
+  }
+
+  async saveWorkspace(state: WorkspaceState): Promise<void> {
+    const store = await this.store(WORKSPACES_STORE, 'readwrite');
+    await promisify(store.put(state));
+  }
+
+  async deleteWorkspace(name: string): Promise<void> {
+    const store = await this.store(WORKSPACES_STORE, 'readwrite');
+    await promisify(store.delete(name));
+  }
+
+  async getActiveWorkspace(): Promise<string> {
+    const store = await this.store(META_STORE, 'readonly');
+    const name = await promisify<string | undefined>(store.get(ACTIVE_WORKSPACE_KEY));
+    return name || DEFAULT_WORKSPACE;
+  }
+
+  async setActiveWorkspace(name: string): Promise<void> {
+    const store = await this.store(META_STORE, 'readwrite');
+    await promisify(store.put(name, ACTIVE_WORKSPACE_KEY));
+  }
+}
+
+export const workspaceStorage = new WorkspaceStorage();
@@ -10,6 +10,11 @@ export default defineConfig({
     wasm(),
     topLevelAwait()
   ],
+  worker: {
+    // The compiler worker loads the huff-neo WASM module
+    format: 'es',
+    plugins: () => [wasm(), topLevelAwait()]
+  },
   server: {
     port: 3000,
     fs: {